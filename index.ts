@@ -1,143 +1,436 @@
 #!/usr/bin/env bun
 
-import yargs from "yargs";
+import {
+  getSeenRelays,
+  normalizeToPubkey,
+  verifyEvent,
+  type NostrEvent,
+} from "applesauce-core/helpers";
+import { readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import yargs, { type Argv } from "yargs";
 import { hideBin } from "yargs/helpers";
-import { MarkdownConverter } from "./src/markdown-converter";
-import { NIP23Publisher } from "./src/nip23-publisher";
-import { RektScraper, type RektArticle } from "./src/scraper";
+import { loginWithNostrConnect, PASSWORD_ENV_VAR } from "./nostr";
+import {
+  AttackClassifier,
+  buildAttackLabelTags,
+} from "./src/attack-classifier";
+import { createArticleLinkResolver } from "./src/article-links";
+import { BackfillCheckpoint } from "./src/backfill-checkpoint";
+import {
+  applyMirroredImages,
+  BlossomImageMirror,
+  getMirroredImages,
+  type ImageMirrorResult,
+  type MirroredImage,
+} from "./src/blossom-mirror";
+import {
+  EventBundle,
+  isSignedEvent,
+  type BundleEntry,
+} from "./src/event-bundle";
+import { HttpClient } from "./src/http-client";
+import {
+  getProfileStatePath,
+  loadConfigFile,
+  resolveSignerReference,
+  selectProfiles,
+  type MirrorProfile,
+} from "./src/config-file";
+import {
+  MarkdownConverter,
+  type ArticleLinkResolver,
+  type SanitizationReport,
+} from "./src/markdown-converter";
+import { extractIncidentMetadata } from "./src/incident-extractor";
+import {
+  DEFAULT_MIN_CONFIDENCE,
+  DEFAULT_REVIEW_CONFIDENCE,
+} from "./src/content-extractor";
+import { setLogFormat, type LogFormat } from "./src/logger";
+import { metrics, type ArticleReport, type RunSummary } from "./src/metrics";
+import {
+  NIP23Publisher,
+  PublishError,
+  hashArticleContent,
+  type ArticleAction,
+  type ArticleToPublish,
+  type NIP23PublisherOptions,
+  type PublishedArticle,
+  type PublishedVersion,
+} from "./src/nip23-publisher";
+import { LabelPublisher, type LabelTarget } from "./src/label-publisher";
+import {
+  MarkdownExporter,
+  type ExportableArticle,
+} from "./src/markdown-exporter";
+import { NoteAnnouncer } from "./src/note-announcer";
+import type { RektArticle } from "./src/scraper";
+import { createFailedRun, writeRunReport } from "./src/run-report";
+import { runScheduled } from "./src/scheduler";
+import { findStructureProblems, printStructureCheck } from "./src/site-doctor";
+import { shutdown, sleep } from "./src/shutdown";
+import { createSource, type Source } from "./src/source";
+import { StateStore } from "./src/state-store";
+import { startStatusServer } from "./src/status-server";
+
+// Where attack categories are published: as label tags on the article,
+// as separate kind 1985 label events, both or not at all
+type AttackLabelMode = "tags" | "events" | "both" | "off";
 
 interface Config {
+  name?: string; // Profile name used in logs and metrics (default: the source name)
   signerString: string;
+  passwordFile?: string;
+  sessionPath: string;
   articleLimit: number;
   publishDelay: number;
   relays?: string[];
+  skipExisting: boolean;
   dryRun: boolean;
+  preflight: boolean; // Check the site structure before scraping
+  minConfidence: number; // Skip articles whose body the extractor isn't sure about
+  reviewConfidence: number; // Flag articles below this for review
+  statePath: string;
+  blossomServers?: string[];
+  http?: HttpClient; // Shared with the source, images are downloaded with it
+  announce: boolean;
+  announceTemplate?: string;
+  markdownDir?: string; // Write the converted markdown of each article here
+  attackLabels: AttackLabelMode;
+  attackRules?: string; // Rules file for the attack classifier
+}
+
+interface DaemonConfig extends Config {
+  intervalMs: number;
+  jitterMs: number;
+  failureThreshold: number;
+  maxBackoffMs: number;
+  httpPort?: number; // Serve /healthz, /status and /metrics on this port
+  httpHost: string;
+}
+
+interface BackfillConfig extends Omit<Config, "articleLimit"> {
+  checkpointPath: string;
+  restart: boolean;
+}
+
+type LabelConfig = Pick<
+  Config,
+  | "signerString"
+  | "passwordFile"
+  | "sessionPath"
+  | "relays"
+  | "statePath"
+  | "dryRun"
+  | "publishDelay"
+  | "attackRules"
+>;
+
+type ExportFrom = "source" | "relays";
+
+interface ExportConfig
+  extends Pick<
+    Config,
+    | "passwordFile"
+    | "sessionPath"
+    | "relays"
+    | "statePath"
+    | "articleLimit"
+    | "minConfidence"
+    | "reviewConfidence"
+    | "http"
+  > {
+  signerString?: string; // Only needed for the naddr when no pubkey is given
+  pubkey?: string; // Hex or npub of the mirror's key
+  from: ExportFrom;
+  outDir: string;
+  downloadImages: boolean;
+}
+
+interface PrepareConfig
+  extends Pick<
+    Config,
+    | "relays"
+    | "statePath"
+    | "articleLimit"
+    | "skipExisting"
+    | "preflight"
+    | "minConfidence"
+    | "reviewConfidence"
+    | "attackRules"
+  > {
+  bundlePath: string;
+  pubkey?: string; // Hex or npub of the key that will sign the bundle
+  attackLabels: Extract<AttackLabelMode, "tags" | "off">;
+}
+
+interface SignConfig
+  extends Pick<Config, "signerString" | "passwordFile" | "sessionPath"> {
+  bundlePath: string;
+  outPath?: string; // Write the signed bundle here instead of in place
+}
+
+interface BroadcastConfig
+  extends Pick<Config, "relays" | "statePath" | "publishDelay"> {
+  bundlePath: string;
+  force: boolean; // Also send to relays that already accepted the event
 }
 
+// A converted article and what happened to it on the way
+type ProcessedArticle = ArticleToPublish & {
+  action: ArticleAction;
+  sanitization: SanitizationReport;
+};
+
 class RektNostrMirror {
-  private scraper: RektScraper;
+  private source: Source;
   private markdownConverter: MarkdownConverter;
   private publisher: NIP23Publisher;
+  private imageMirror: BlossomImageMirror | null = null;
+  private useMirroredImages = false; // Also set in dry runs, which don't upload
+  private announcer: NoteAnnouncer | null = null;
+  private classifier: AttackClassifier | null = null;
+  private labelTags = false; // Put the attack categories on the article itself
+  private labeler: LabelPublisher | null = null;
 
-  constructor() {
-    this.scraper = new RektScraper();
+  constructor(
+    source: Source = createSource("rekt"),
+    publisherOptions: NIP23PublisherOptions = {},
+  ) {
+    this.source = source;
     this.markdownConverter = new MarkdownConverter();
-    this.publisher = new NIP23Publisher();
+    this.publisher = new NIP23Publisher(publisherOptions);
   }
 
-  async run(config: Config): Promise<void> {
+  async run(config: Config): Promise<RunSummary> {
+    const summary: RunSummary = {
+      source: config.name ?? this.source.name,
+      startedAt: new Date().toISOString(),
+      ok: true,
+      dryRun: config.dryRun,
+      seen: 0,
+      published: 0,
+      new: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      articles: [],
+    };
+
     console.log("🚀 Starting Rekt.news → Nostr Mirror");
     console.log(`📊 Configuration:
 - Article limit: ${config.articleLimit}
 - Publish delay: ${config.publishDelay}ms
+- Skip existing: ${config.skipExisting}
 - Dry run: ${config.dryRun}
+- State file: ${config.statePath}
 - Relays: ${config.relays?.length || "default"} relays`);
 
     try {
-      // Initialize publisher if not in dry run mode
-      if (!config.dryRun) {
+      // Load what previous runs have mirrored
+      const store = new StateStore(config.statePath);
+      await store.load();
+
+      // Initialize publisher if not in dry run mode (or when a dry run
+      // needs the signer's pubkey to look up existing articles)
+      const needsSigner =
+        !config.dryRun || (config.skipExisting && config.signerString);
+      if (needsSigner && !this.publisher.isInitialized()) {
         console.log("\n🔐 Initializing Nostr signer...");
-        await this.publisher.initialize(config.signerString);
+        await this.publisher.initialize(config.signerString, {
+          passwordFile: config.passwordFile,
+          sessionPath: config.sessionPath,
+        });
       }
+      this.setupImageMirror(config);
+      this.setupAnnouncer(config);
+      await this.setupAttackLabels(config);
+      if (config.preflight) await this.checkSourceStructure();
 
-      // Fetch latest articles from rekt.news
-      console.log("\n🕷️  Scraping rekt.news for latest articles...");
-      const articles = await this.scraper.fetchLatestArticles(
-        config.articleLimit,
-      );
+      // Fetch latest articles from the source
+      console.log(`\n🕷️  Scraping ${this.source.name} for latest articles...`);
+      const articles = await this.source
+        .fetchLatestArticles(config.articleLimit)
+        .catch((error) => {
+          metrics.recordScrapeError(summary.source);
+          throw error;
+        });
+      summary.seen = articles.length;
 
       if (articles.length === 0) {
         console.log("❌ No articles found. Exiting.");
-        return;
+        return this.finishRun(summary);
       }
 
-      console.log(`✅ Found ${articles.length} articles to process`);
+      console.log(`✅ Found ${articles.length} articles`);
+
+      const previousVersions = await this.findPreviousVersions(
+        store,
+        articles,
+        config,
+      );
+
+      // Links to already mirrored articles become nostr: references
+      const resolveArticleLink = createArticleLinkResolver(
+        store.list(),
+        await this.publisher.getPublicKey(),
+      );
 
       // Process articles
-      const processedArticles: { article: RektArticle; markdown: string }[] =
-        [];
+      const processedArticles: ProcessedArticle[] = [];
 
       for (let i = 0; i < articles.length; i++) {
         const article = articles[i];
         if (!article) continue; // Skip undefined articles
+        if (shutdown.requested) break;
 
         console.log(
           `\n📰 Processing ${i + 1}/${articles.length}: ${article.title}`,
         );
 
-        // Convert HTML to markdown
-        console.log("🔄 Converting HTML to Markdown...");
-        const result = this.markdownConverter.convertRektArticle(
-          article.content,
-          article.url,
-        );
-
-        if (result.markdown.length < 100) {
-          console.log("⚠️  Converted markdown too short, skipping");
-          continue;
-        }
-
-        console.log(
-          `✅ Converted to ${result.markdown.length} characters of markdown`,
-        );
+        const verdict = this.checkConfidence(article, config);
+        const processed =
+          verdict === "skip"
+            ? null
+            : await this.processArticle(
+                article,
+                previousVersions,
+                resolveArticleLink,
+              );
+        const report: ArticleReport = {
+          url: article.url,
+          title: article.title,
+          articleId: this.publisher.createArticleId(article.url),
+          action: processed?.action ?? "skipped",
+          published: false,
+          confidence: article.contentConfidence,
+          needsReview: verdict === "review" || undefined,
+          sanitization:
+            processed && hasSanitized(processed.sanitization)
+              ? processed.sanitization
+              : undefined,
+        };
+        summary.articles.push(report);
 
-        // If an image was extracted from the beginning, set it as the article image
-        let updatedArticle = article;
-        if (result.extractedImage) {
-          console.log(`🖼️  Extracted leading image: ${result.extractedImage}`);
-          updatedArticle = { ...article, image: result.extractedImage };
+        if (processed) {
+          processedArticles.push(processed);
+          await this.recordMirroredImages(store, processed);
+        } else if (verdict === "skip") {
+          report.error = `Extraction confidence ${article.contentConfidence} is below ${config.minConfidence}`;
+          summary.skipped++;
+        } else {
+          metrics.recordConversionFailure(summary.source);
+          report.error = "No usable content after conversion";
+          summary.skipped++;
         }
+      }
 
-        // Preview first 200 characters
-        const preview =
-          result.markdown.substring(0, 200) +
-          (result.markdown.length > 200 ? "..." : "");
-        console.log(`📝 Preview: ${preview}`);
+      if (config.markdownDir) {
+        await this.writeMarkdown(config.markdownDir, processedArticles);
+      }
 
-        processedArticles.push({
-          article: updatedArticle,
-          markdown: result.markdown,
-        });
+      if (shutdown.requested) {
+        console.log("🛑 Shutdown requested, nothing was published");
+        return this.finishRun(summary);
       }
 
       if (processedArticles.length === 0) {
         console.log("❌ No articles to publish after processing. Exiting.");
-        return;
+        return this.finishRun(summary);
       }
 
+      // Report what will happen to each article
+      console.log("\n📋 Run report:");
+      processedArticles.forEach(({ article, action }, index) => {
+        const icon = { new: "🆕", updated: "✏️ ", unchanged: "⏭️ " }[action];
+        console.log(
+          `${index + 1}. ${icon} [${action}] ${article.title} (${article.url})`,
+        );
+      });
+
+      const articlesToPublish = processedArticles.filter(
+        ({ action }) => action !== "unchanged",
+      );
+      const counts = {
+        new: articlesToPublish.filter(({ action }) => action === "new").length,
+        updated: articlesToPublish.filter(({ action }) => action === "updated")
+          .length,
+        unchanged: processedArticles.length - articlesToPublish.length,
+      };
+      console.log(
+        `\n📊 ${counts.new} new, ${counts.updated} updated, ${counts.unchanged} unchanged`,
+      );
+      summary.skipped += counts.unchanged;
+
       // Publish articles
-      if (config.dryRun) {
+      if (articlesToPublish.length === 0) {
+        console.log("✅ Nothing to publish, all articles are up to date.");
+      } else if (config.dryRun) {
         console.log(
-          `\n🧪 DRY RUN: Would publish ${processedArticles.length} articles`,
+          `\n🧪 DRY RUN: Would publish ${articlesToPublish.length} articles`,
         );
-        processedArticles.forEach(({ article }, index) => {
-          console.log(`${index + 1}. ${article.title} (${article.url})`);
-        });
       } else {
         console.log(
-          `\n📤 Publishing ${processedArticles.length} articles to Nostr...`,
+          `\n📤 Publishing ${articlesToPublish.length} articles to Nostr...`,
         );
         const publishOptions = {
           signerString: config.signerString,
           relays: config.relays,
+          signal: shutdown.signal,
         };
 
-        const eventIds = await this.publisher.publishMultipleArticles(
-          processedArticles,
+        const published = await this.publisher.publishMultipleArticles(
+          articlesToPublish,
           publishOptions,
           config.publishDelay,
+          // Record each article as soon as it's published so an interrupted
+          // run doesn't lose track of it
+          async (result) => {
+            const report = this.findArticleReport(summary, result.article.url);
+            if (report) {
+              report.published = true;
+              report.eventId = result.event.id;
+              report.relays = result.relays;
+            }
+
+            await this.recordPublished(store, result);
+            await this.announceArticle(result, config.relays);
+            await this.labelPublished(store, result, config.relays);
+          },
+          (item, error) => {
+            summary.failed++;
+            const report = this.findArticleReport(summary, item.article.url);
+            if (!report) return;
+
+            report.error =
+              error instanceof Error ? error.message : String(error);
+            if (error instanceof PublishError) {
+              report.eventId = error.eventId;
+              report.relays = error.relays;
+            }
+          },
         );
+        summary.published = published.length;
+        summary.new = published.filter((p) => p.action === "new").length;
+        summary.updated = published.filter(
+          (p) => p.action === "updated",
+        ).length;
 
-        console.log(`\n🎉 Successfully published ${eventIds.length} articles!`);
+        console.log(
+          `\n🎉 Successfully published ${published.length} articles!`,
+        );
         console.log("📋 Event IDs:");
-        eventIds.forEach((id, index) => {
-          console.log(`${index + 1}. ${id}`);
+        published.forEach(({ event }, index) => {
+          console.log(`${index + 1}. ${event.id}`);
         });
       }
 
       // Give a moment for any pending operations to complete
       console.log("\n✅ All done! Closing connections...");
       await new Promise((resolve) => setTimeout(resolve, 100));
+      return this.finishRun(summary);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -147,29 +440,1193 @@ class RektNostrMirror {
       if (errorStack) {
         console.error("Stack trace:", errorStack);
       }
-      process.exit(1);
+      // Let the caller decide whether to exit, other profiles may still run
+      return this.finishRun({ ...summary, ok: false, error: errorMessage });
+    }
+  }
+
+  /**
+   * Decide what to do with an article from how sure the content extractor
+   * was that it found the body. Full-text feed entries are always trusted.
+   */
+  private checkConfidence(
+    article: RektArticle,
+    config: Pick<Config, "minConfidence" | "reviewConfidence">,
+  ): "ok" | "review" | "skip" {
+    const confidence = article.contentConfidence;
+    if (confidence === undefined || confidence >= config.reviewConfidence)
+      return "ok";
+
+    if (confidence < config.minConfidence) {
+      console.log(
+        `⚠️  Extraction confidence ${confidence} is below ${config.minConfidence}, skipping`,
+      );
+      return "skip";
     }
+    console.log(
+      `🔍 Extraction confidence ${confidence} is below ${config.reviewConfidence}, flagged for review`,
+    );
+    return "review";
+  }
+
+  /** Refuse to scrape a site that no longer looks like the scraper expects */
+  private async checkSourceStructure(): Promise<void> {
+    if (!this.source.checkStructure) return;
+
+    console.log(`\n🩺 Checking the structure of ${this.source.name}...`);
+    const problems = findStructureProblems(await this.source.checkStructure());
+    const errors = problems.filter(({ level }) => level === "error");
+    problems
+      .filter(({ level }) => level === "warning")
+      .forEach(({ message }) => console.warn(`⚠️  ${message}`));
+
+    if (errors.length > 0) {
+      errors.forEach(({ message }) => console.error(`❌ ${message}`));
+      throw new Error('Site structure check failed, run "doctor" for details');
+    }
+    console.log("✅ Site structure looks fine");
+  }
+
+  private findArticleReport(
+    summary: RunSummary,
+    url: string,
+  ): ArticleReport | undefined {
+    return summary.articles.find((report) => report.url === url);
+  }
+
+  private finishRun(summary: RunSummary): RunSummary {
+    summary.finishedAt = new Date().toISOString();
+    metrics.recordRun(summary);
+    return summary;
+  }
+
+  private setupAnnouncer(
+    config: Pick<Config, "announce" | "announceTemplate" | "dryRun">,
+  ): void {
+    if (!config.announce || config.dryRun || this.announcer) return;
+
+    this.announcer = new NoteAnnouncer(this.publisher, config.announceTemplate);
+    console.log("📣 New articles will be announced with a kind 1 note");
+  }
+
+  /** Announce newly mirrored articles, updates are not announced again */
+  private async announceArticle(
+    result: PublishedArticle,
+    relays?: string[],
+  ): Promise<void> {
+    if (!this.announcer || result.action !== "new") return;
+
+    try {
+      await this.announcer.announce(result, relays);
+    } catch (error) {
+      // The article itself is published, so don't fail the run over the note
+      if (error instanceof Error)
+        console.error(`❌ Failed to announce article: ${error.message}`);
+    }
+  }
+
+  private async setupAttackLabels(
+    config: Pick<Config, "attackLabels" | "attackRules" | "dryRun">,
+  ): Promise<void> {
+    if (config.attackLabels === "off" || this.classifier) return;
+
+    this.classifier = await AttackClassifier.load(config.attackRules);
+    this.labelTags =
+      config.attackLabels === "tags" || config.attackLabels === "both";
+
+    // Label events are a side effect, so dry runs only log the categories
+    if (config.attackLabels !== "tags" && !config.dryRun) {
+      this.labeler = new LabelPublisher(this.publisher);
+      console.log(
+        "🏷️  Attack categories will be published as kind 1985 label events",
+      );
+    }
+  }
+
+  /** Label a published article with a kind 1985 event */
+  private async labelPublished(
+    store: StateStore,
+    { article, event, relays: results }: PublishedArticle,
+    relays?: string[],
+  ): Promise<void> {
+    await this.labelArticle(
+      store,
+      {
+        pubkey: event.pubkey,
+        articleId: this.publisher.createArticleId(article.url),
+        relayHint: results.find((r) => r.ok)?.relay,
+      },
+      `${article.title}\n\n${event.content}`,
+      relays,
+    );
+  }
+
+  /**
+   * Publish a kind 1985 label event with the attack categories of an
+   * article, unless the last label event already had the same categories.
+   * Returns whether an event was published.
+   */
+  private async labelArticle(
+    store: StateStore,
+    target: LabelTarget,
+    text: string,
+    relays?: string[],
+  ): Promise<boolean> {
+    if (!this.labeler || !this.classifier) return false;
+
+    const categories = this.classifier.classify(text);
+    const record = store.get(target.articleId, target.pubkey);
+    if (
+      categories.length === 0 ||
+      record?.labels?.join(",") === categories.join(",")
+    ) {
+      return false;
+    }
+
+    try {
+      const { relays: results } = await this.labeler.label(
+        target,
+        categories,
+        relays,
+      );
+      if (!results.some((r) => r.ok)) {
+        console.error("❌ No relay accepted the label event");
+        return false;
+      }
+
+      // Remember the categories so the next run doesn't label it again
+      if (record) {
+        store.upsert({ ...record, labels: categories });
+        await store.save();
+      }
+      return true;
+    } catch (error) {
+      // The article itself is published, so don't fail the run over the label
+      if (error instanceof Error)
+        console.error(`❌ Failed to label article: ${error.message}`);
+      return false;
+    }
+  }
+
+  private setupImageMirror(
+    config: Pick<Config, "blossomServers" | "dryRun" | "http">,
+  ): void {
+    if (!config.blossomServers?.length || this.useMirroredImages) return;
+    this.useMirroredImages = true;
+
+    // Uploading is a side effect, so dry runs only use the copies made before
+    if (config.dryRun) {
+      console.log(
+        "⚠️  Image uploads to Blossom are skipped in dry run mode, only images mirrored before are used",
+      );
+      return;
+    }
+
+    this.imageMirror = new BlossomImageMirror(
+      config.blossomServers,
+      this.publisher.getSigner(),
+      config.http,
+    );
+    console.log(
+      `🌸 Mirroring images to ${config.blossomServers.length} Blossom servers`,
+    );
+  }
+
+  /**
+   * Look up articles that were already published, first in the state store
+   * and then on the relays for anything the store doesn't know about
+   */
+  private async findPreviousVersions(
+    store: StateStore,
+    articles: RektArticle[],
+    config: Pick<Config, "skipExisting" | "relays" | "dryRun">,
+    author?: string, // Look up this pubkey's articles instead of the signer's
+  ): Promise<Map<string, PublishedVersion>> {
+    const previousVersions = new Map<string, PublishedVersion>();
+    if (!config.skipExisting) return previousVersions;
+
+    const pubkey = author ?? (await this.publisher.getPublicKey());
+    const unknownIds: string[] = [];
+
+    for (const article of articles) {
+      const articleId = this.publisher.createArticleId(article.url);
+      const record = store.get(articleId, pubkey);
+      if (record) {
+        previousVersions.set(articleId, {
+          hash: record.contentHash,
+          publishedAt: record.publishedAt,
+          images: record.images,
+        });
+      } else {
+        unknownIds.push(articleId);
+      }
+    }
+
+    console.log(
+      `\n🗃️  ${previousVersions.size} articles found in the state file`,
+    );
+
+    if (unknownIds.length > 0 && pubkey) {
+      console.log("🔍 Checking relays for already published articles...");
+      const existing = await this.publisher.fetchExistingArticles(
+        unknownIds,
+        config.relays,
+        pubkey,
+      );
+      console.log(`✅ Found ${existing.size} already published articles`);
+
+      for (const [articleId, event] of existing) {
+        const version = this.publisher.getPublishedVersion(event);
+        previousVersions.set(articleId, version);
+
+        // Remember the relay copy so later runs don't have to ask again
+        const url = event.tags.find((t) => t[0] === "r")?.[1] ?? "";
+        store.upsert({
+          url,
+          articleId,
+          contentHash: version.hash,
+          eventId: event.id,
+          pubkey,
+          publishedAt: version.publishedAt,
+          firstPublishedAt: event.created_at,
+          lastPublishedAt: event.created_at,
+          relays: [...(getSeenRelays(event) ?? [])],
+          images: getRecordedImages(event),
+        });
+      }
+      if (!config.dryRun && existing.size > 0) await store.save();
+    } else if (unknownIds.length > 0) {
+      console.log(
+        "⚠️  No signer provided, unable to check relays for existing articles",
+      );
+    }
+
+    return previousVersions;
+  }
+
+  /** Convert an article to markdown and compare it with the published version */
+  private async processArticle(
+    article: RektArticle,
+    previousVersions: Map<string, PublishedVersion>,
+    resolveArticleLink?: ArticleLinkResolver,
+  ): Promise<ProcessedArticle | null> {
+    // Convert HTML to markdown
+    console.log("🔄 Converting HTML to Markdown...");
+    let result: ReturnType<MarkdownConverter["convertRektArticle"]>;
+    try {
+      result = this.markdownConverter.convertRektArticle(
+        article.content,
+        article.url,
+        { resolveArticleLink },
+      );
+    } catch (error) {
+      if (error instanceof Error)
+        console.error(`❌ Failed to convert article: ${error.message}`);
+      return null;
+    }
+
+    if (result.markdown.length < 100) {
+      console.log("⚠️  Converted markdown too short, skipping");
+      return null;
+    }
+
+    console.log(
+      `✅ Converted to ${result.markdown.length} characters of markdown`,
+    );
+
+    // Show what the sanitizer took out of the page
+    const { blockedUrls, trackingParams, escapedHtml } = result.sanitization;
+    if (hasSanitized(result.sanitization)) {
+      console.log(
+        `🧹 Sanitized: ${blockedUrls.length} blocked URLs, ${trackingParams.length} tracking parameters, ${escapedHtml.length} HTML tags escaped`,
+      );
+      for (const url of blockedUrls) console.log(`   🚫 ${url}`);
+    }
+
+    // If an image was extracted from the beginning, set it as the article image
+    let updatedArticle = article;
+    if (result.extractedImage) {
+      console.log(`🖼️  Extracted leading image: ${result.extractedImage}`);
+      updatedArticle = { ...article, image: result.extractedImage };
+    }
+
+    // Pull the loss, chains and onchain references out of the text
+    const incident = extractIncidentMetadata(
+      result.markdown,
+      article.publishedAt,
+    );
+    const lossText = incident.lossUsd
+      ? `$${incident.lossUsd.toLocaleString("en-US")}`
+      : "unknown loss";
+    console.log(
+      `🔎 Incident: ${lossText}, chains: ${incident.chains.join(", ") || "none"}, ${incident.addresses.length} addresses, ${incident.transactions.length} transactions`,
+    );
+
+    const markdown = result.markdown;
+    const extraTags: string[][] = [];
+
+    // Reference the mirrored articles the links now point at
+    if (result.references.length > 0) {
+      console.log(
+        `🔗 Linked ${result.references.length} already mirrored articles`,
+      );
+      extraTags.push(
+        ...result.references.map(({ coordinate, relay }) =>
+          relay ? ["a", coordinate, relay] : ["a", coordinate],
+        ),
+      );
+    }
+
+    // Classify the attack from the text
+    const attacks =
+      this.classifier?.classify(`${article.title}\n\n${markdown}`) ?? [];
+    if (this.classifier) {
+      console.log(`🏷️  Attack categories: ${attacks.join(", ") || "none"}`);
+    }
+    if (this.labelTags) extraTags.push(...buildAttackLabelTags(attacks));
+
+    // Point the images at the Blossom copies made for the published version,
+    // so unchanged articles are recognised without downloading anything
+    const previous = previousVersions.get(
+      this.publisher.createArticleId(article.url),
+    );
+    const knownImages = this.useMirroredImages ? (previous?.images ?? []) : [];
+    const withImages = (mirrored: ImageMirrorResult): ArticleToPublish => ({
+      article: { ...updatedArticle, image: mirrored.image },
+      markdown: mirrored.markdown,
+      previous,
+      extraTags: [...extraTags, ...mirrored.imetaTags],
+      incident,
+    });
+
+    // Compare with the version that was already published
+    let item = withImages(
+      applyMirroredImages(markdown, updatedArticle.image, knownImages),
+    );
+    let action = this.publisher.getArticleAction(item);
+
+    // Copy the remaining images of new and changed articles to Blossom
+    if (this.imageMirror && action !== "unchanged") {
+      console.log("🌸 Mirroring images to Blossom...");
+      const mirrored = await this.imageMirror.mirrorArticleImages(
+        markdown,
+        updatedArticle.image,
+        knownImages,
+      );
+      item = withImages(mirrored);
+      console.log(`✅ Mirrored ${mirrored.images.length} images`);
+
+      // The copies can turn out to be exactly what was published
+      action = this.publisher.getArticleAction(item);
+    }
+
+    // Preview first 200 characters
+    const preview =
+      item.markdown.substring(0, 200) +
+      (item.markdown.length > 200 ? "..." : "");
+    console.log(`📝 Preview: ${preview}`);
+    console.log(`📌 Status: ${action}`);
+
+    return { ...item, action, sanitization: result.sanitization };
+  }
+
+  /**
+   * Remember the Blossom copies of an unchanged article whose state record
+   * doesn't have them yet, so the next run doesn't download its images again
+   */
+  private async recordMirroredImages(
+    store: StateStore,
+    processed: ProcessedArticle,
+  ): Promise<void> {
+    if (processed.action !== "unchanged" || processed.previous?.images?.length)
+      return;
+
+    const images = getMirroredImages(processed.extraTags ?? []);
+    const record = store.get(
+      this.publisher.createArticleId(processed.article.url),
+      await this.publisher.getPublicKey(),
+    );
+    if (images.length === 0 || !record) return;
+
+    store.upsert({ ...record, images });
+    await store.save();
+  }
+
+  /** Save the converted articles as `<article id>.md` files for diffing */
+  private async writeMarkdown(
+    dir: string,
+    articles: ArticleToPublish[],
+  ): Promise<void> {
+    await mkdir(dir, { recursive: true });
+    for (const { article, markdown } of articles) {
+      const articleId = this.publisher.createArticleId(article.url);
+      await writeFile(
+        join(dir, `${articleId.replace(/[^\w.-]+/g, "_")}.md`),
+        markdown,
+      );
+    }
+    console.log(`💾 Wrote ${articles.length} markdown files to ${dir}`);
+  }
+
+  private async recordPublished(
+    store: StateStore,
+    { article, event, hash, relays }: PublishedArticle,
+  ): Promise<void> {
+    store.upsert({
+      url: article.url,
+      articleId: this.publisher.createArticleId(article.url),
+      contentHash: hash,
+      eventId: event.id,
+      pubkey: event.pubkey,
+      publishedAt: event.tags.find((t) => t[0] === "published_at")?.[1],
+      firstPublishedAt: event.created_at,
+      lastPublishedAt: event.created_at,
+      relays: relays.filter((r) => r.ok).map((r) => r.relay),
+      images: getRecordedImages(event),
+    });
+    await store.save();
+  }
+
+  /** Returns false when the backfill or any of its articles failed */
+  async backfill(config: BackfillConfig): Promise<boolean> {
+    console.log("🚀 Starting Rekt.news → Nostr backfill");
+    console.log(`📊 Configuration:
+- Publish delay: ${config.publishDelay}ms
+- Skip existing: ${config.skipExisting}
+- Dry run: ${config.dryRun}
+- State file: ${config.statePath}
+- Checkpoint: ${config.checkpointPath}
+- Relays: ${config.relays?.length || "default"} relays`);
+
+    try {
+      const store = new StateStore(config.statePath);
+      await store.load();
+
+      const needsSigner =
+        !config.dryRun || (config.skipExisting && config.signerString);
+      if (needsSigner && !this.publisher.isInitialized()) {
+        console.log("\n🔐 Initializing Nostr signer...");
+        await this.publisher.initialize(config.signerString, {
+          passwordFile: config.passwordFile,
+          sessionPath: config.sessionPath,
+        });
+      }
+      this.setupImageMirror(config);
+      this.setupAnnouncer(config);
+      await this.setupAttackLabels(config);
+      if (config.preflight) await this.checkSourceStructure();
+
+      // Resume an interrupted backfill or discover every article from scratch
+      const checkpoint = new BackfillCheckpoint(config.checkpointPath);
+      if (config.restart) await checkpoint.clear();
+
+      // Pages already fetched during discovery aren't fetched again
+      const fetched = new Map<string, RektArticle>();
+
+      if (await checkpoint.load()) {
+        console.log(
+          `\n⏯️  Resuming backfill: ${checkpoint.completedCount}/${checkpoint.total} articles done, ${checkpoint.failedCount} to retry`,
+        );
+      } else {
+        console.log(`\n🕷️  Discovering all articles on ${this.source.name}...`);
+        const discovered = await this.source.discoverAllArticles();
+        if (discovered.length === 0) {
+          console.log("❌ No articles found. Exiting.");
+          return true;
+        }
+
+        console.log(`✅ Discovered ${discovered.length} articles`);
+        for (const article of discovered) {
+          if (article.content) fetched.set(article.url, article);
+        }
+        checkpoint.start(discovered);
+        if (!config.dryRun) await checkpoint.save();
+      }
+
+      const remaining = checkpoint.getRemaining();
+      const counts = { new: 0, updated: 0, unchanged: 0, failed: 0 };
+
+      for (let i = 0; i < remaining.length; i++) {
+        const listed = remaining[i]!;
+
+        if (shutdown.requested) {
+          console.log(
+            `🛑 Stopping backfill, ${remaining.length - i} articles left for the next run`,
+          );
+          return counts.failed === 0;
+        }
+
+        console.log(
+          `\n📰 Backfilling ${i + 1}/${remaining.length}: ${listed.title}`,
+        );
+
+        // One broken article shouldn't end a backfill of the whole archive,
+        // but only articles skipped on purpose count as done
+        let processed: ProcessedArticle | null;
+        try {
+          const article =
+            fetched.get(listed.url) ??
+            (await this.source.fetchArticleContent(listed));
+          const previousVersions = await this.findPreviousVersions(
+            store,
+            [article],
+            config,
+          );
+          processed =
+            article.content.length > 100 &&
+            this.checkConfidence(article, config) !== "skip"
+              ? await this.processArticle(
+                  article,
+                  previousVersions,
+                  // Earlier articles of this backfill can be linked already
+                  createArticleLinkResolver(
+                    store.list(),
+                    await this.publisher.getPublicKey(),
+                  ),
+                )
+              : null;
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          console.error(
+            `❌ Failed to process article "${listed.title}": ${message}`,
+          );
+          checkpoint.markFailed(listed.url, message);
+          if (!config.dryRun) await checkpoint.save();
+          counts.failed++;
+          continue;
+        }
+
+        if (!processed) {
+          console.log("⚠️  No usable content, skipping");
+        } else if (processed.action === "unchanged") {
+          await this.recordMirroredImages(store, processed);
+          counts.unchanged++;
+        } else if (config.dryRun) {
+          console.log(`🧪 DRY RUN: Would publish (${processed.action})`);
+          counts[processed.action]++;
+        } else {
+          try {
+            const result = await this.publisher.publishArticle(processed, {
+              signerString: config.signerString,
+              relays: config.relays,
+            });
+            await this.recordPublished(store, result);
+            await this.announceArticle(result, config.relays);
+            await this.labelPublished(store, result, config.relays);
+            counts[processed.action]++;
+          } catch (error) {
+            // Leave the article out of the completed ones so a resume retries it
+            const message =
+              error instanceof Error ? error.message : String(error);
+            console.error(
+              `❌ Failed to publish article "${processed.article.title}": ${message}`,
+            );
+            checkpoint.markFailed(listed.url, message);
+            await checkpoint.save();
+            counts.failed++;
+            continue;
+          }
+
+          // Delay between publications to avoid rate limiting
+          if (i < remaining.length - 1) {
+            console.log(
+              `⏸️  Waiting ${config.publishDelay}ms before next publication...`,
+            );
+            await sleep(config.publishDelay, shutdown.signal);
+          }
+        }
+
+        checkpoint.markCompleted(listed.url);
+        if (!config.dryRun) await checkpoint.save();
+      }
+
+      console.log(
+        `\n📊 Backfill: ${counts.new} new, ${counts.updated} updated, ${counts.unchanged} unchanged, ${counts.failed} failed`,
+      );
+
+      // Only finish the backfill once every article has been handled
+      if (!config.dryRun && counts.failed === 0) {
+        await checkpoint.clear();
+        console.log("✅ Backfill complete, checkpoint removed");
+      } else if (counts.failed > 0) {
+        console.log(
+          "⚠️  Some articles failed, run backfill again to retry them",
+        );
+      }
+
+      // Give a moment for any pending operations to complete
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return counts.failed === 0;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : undefined;
+
+      console.error("💥 Fatal error:", errorMessage);
+      if (errorStack) {
+        console.error("Stack trace:", errorStack);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Poll the source on an interval, keeping the signer and relay pool alive
+   * between polls, until a shutdown is requested.
+   */
+  async daemon(config: DaemonConfig): Promise<void> {
+    const name = config.name ?? this.source.name;
+    console.log(
+      `🔁 ${name}: polling every ${Math.round(config.intervalMs / 1000)}s (+ up to ${Math.round(config.jitterMs / 1000)}s jitter)`,
+    );
+
+    await runScheduled(
+      async () => {
+        const summary = await this.run(config);
+        if (!summary.ok) throw new Error(summary.error);
+      },
+      {
+        name,
+        intervalMs: config.intervalMs,
+        jitterMs: config.jitterMs,
+        failureThreshold: config.failureThreshold,
+        maxBackoffMs: config.maxBackoffMs,
+        signal: shutdown.signal,
+      },
+    );
+
+    await this.publisher.close();
+    console.log(`👋 ${name}: daemon stopped`);
+  }
+
+  /**
+   * Label every article in the state file with kind 1985 events, fetching
+   * the published articles from relays to classify them. Articles whose
+   * categories haven't changed since they were last labelled are skipped.
+   */
+  async label(config: LabelConfig): Promise<void> {
+    const store = new StateStore(config.statePath);
+    await store.load();
+
+    console.log("\n🔐 Initializing Nostr signer...");
+    await this.publisher.initialize(config.signerString, {
+      passwordFile: config.passwordFile,
+      sessionPath: config.sessionPath,
+    });
+    await this.setupAttackLabels({
+      attackLabels: "events",
+      attackRules: config.attackRules,
+      dryRun: config.dryRun,
+    });
+
+    const pubkey = (await this.publisher.getPublicKey())!;
+    const records = store.list().filter((record) => record.pubkey === pubkey);
+    if (records.length === 0) {
+      console.log("📭 No mirrored articles for this signer in the state file.");
+      return;
+    }
+
+    console.log(
+      `🔍 Fetching ${records.length} mirrored articles from relays...`,
+    );
+    const events = await this.publisher.fetchExistingArticles(
+      records.map((record) => record.articleId),
+      config.relays,
+    );
+
+    const counts = { labelled: 0, unchanged: 0, missing: 0 };
+    for (const record of records) {
+      if (shutdown.requested) break;
+
+      const event = events.get(record.articleId);
+      if (!event) {
+        console.warn(`⚠️  ${record.articleId} was not found on the relays`);
+        counts.missing++;
+        continue;
+      }
+
+      const title = event.tags.find((t) => t[0] === "title")?.[1] ?? "";
+      const text = `${title}\n\n${event.content}`;
+
+      if (config.dryRun) {
+        const categories = this.classifier!.classify(text);
+        console.log(
+          `🧪 DRY RUN: ${record.articleId}: ${categories.join(", ") || "no categories"}`,
+        );
+        continue;
+      }
+
+      const labelled = await this.labelArticle(
+        store,
+        {
+          pubkey,
+          articleId: record.articleId,
+          relayHint: record.relays[0],
+        },
+        text,
+        config.relays,
+      );
+      if (!labelled) {
+        counts.unchanged++;
+        continue;
+      }
+
+      counts.labelled++;
+      await sleep(config.publishDelay, shutdown.signal);
+    }
+
+    if (config.dryRun) return;
+    console.log(
+      `\n📊 ${counts.labelled} labelled, ${counts.unchanged} unchanged or without categories, ${counts.missing} not found`,
+    );
+  }
+
+  /**
+   * Write the mirrored articles as markdown files with frontmatter, either
+   * converted fresh from the source or read back from the relays
+   */
+  async export(config: ExportConfig): Promise<void> {
+    if (config.signerString) {
+      console.log("\n🔐 Initializing Nostr signer...");
+      await this.publisher.initialize(config.signerString, {
+        passwordFile: config.passwordFile,
+        sessionPath: config.sessionPath,
+      });
+    }
+    const pubkey = config.pubkey
+      ? normalizeToPubkey(config.pubkey)
+      : await this.publisher.getPublicKey();
+
+    let articles: ExportableArticle[];
+    if (config.from === "relays") {
+      if (!pubkey) {
+        throw new Error("Exporting from relays needs --pubkey or --signer");
+      }
+
+      console.log("🔍 Fetching the mirrored articles from relays...");
+      const events = await this.publisher.fetchPublishedArticles(
+        pubkey,
+        config.relays,
+      );
+      articles = [...events.values()].map((event) => ({
+        ...event,
+        relays: [...(getSeenRelays(event) ?? [])],
+      }));
+    } else {
+      articles = await this.convertForExport(pubkey, config);
+    }
+
+    if (articles.length === 0) {
+      console.log("📭 No articles to export.");
+      return;
+    }
+
+    const exporter = new MarkdownExporter({
+      outDir: config.outDir,
+      downloadImages: config.downloadImages,
+      http: config.http,
+    });
+    const counts = { exported: 0, images: 0, failed: 0 };
+    for (const article of articles) {
+      if (shutdown.requested) break;
+
+      try {
+        const exported = await exporter.export(article);
+        console.log(`💾 ${exported.path}`);
+        counts.exported++;
+        counts.images += exported.images;
+      } catch (error) {
+        if (error instanceof Error)
+          console.error(`❌ Failed to export article: ${error.message}`);
+        counts.failed++;
+      }
+    }
+
+    const images = config.downloadImages ? ` with ${counts.images} images` : "";
+    console.log(
+      `\n📊 Exported ${counts.exported} articles${images} to ${config.outDir}, ${counts.failed} failed`,
+    );
+  }
+
+  /** Run the scrape and convert steps, without publishing anything */
+  private async convertForExport(
+    pubkey: string | undefined,
+    config: ExportConfig,
+  ): Promise<ExportableArticle[]> {
+    const store = new StateStore(config.statePath);
+    await store.load();
+
+    console.log(`\n🕷️  Scraping ${this.source.name} for latest articles...`);
+    const articles = await this.source.fetchLatestArticles(config.articleLimit);
+    console.log(`✅ Found ${articles.length} articles`);
+
+    const exportable: ExportableArticle[] = [];
+    for (const article of articles) {
+      if (shutdown.requested) break;
+
+      console.log(`\n📰 Processing: ${article.title}`);
+      if (this.checkConfidence(article, config) === "skip") continue;
+
+      const processed = await this.processArticle(article, new Map());
+      if (!processed) continue;
+
+      // Relay hints for the naddr come from the last time it was published
+      const articleId = this.publisher.createArticleId(article.url);
+      const record = store
+        .list()
+        .find((r) => r.articleId === articleId && r.pubkey === pubkey);
+
+      exportable.push({
+        ...this.publisher.buildArticleEvent(processed),
+        pubkey,
+        relays: record?.relays,
+      });
+    }
+    return exportable;
+  }
+
+  /**
+   * Scrape and convert the latest articles into a bundle of unsigned events,
+   * so the signing key never has to be on the scraping machine
+   */
+  async prepare(config: PrepareConfig): Promise<void> {
+    const store = new StateStore(config.statePath);
+    await store.load();
+
+    const pubkey = config.pubkey ? normalizeToPubkey(config.pubkey) : undefined;
+    await this.setupAttackLabels({ ...config, dryRun: true });
+    if (config.preflight) await this.checkSourceStructure();
+
+    console.log(`\n🕷️  Scraping ${this.source.name} for latest articles...`);
+    const articles = await this.source.fetchLatestArticles(config.articleLimit);
+    console.log(`✅ Found ${articles.length} articles`);
+
+    const previousVersions = await this.findPreviousVersions(
+      store,
+      articles,
+      { ...config, dryRun: false },
+      pubkey,
+    );
+    const resolveArticleLink = createArticleLinkResolver(store.list(), pubkey);
+
+    const bundle = new EventBundle(config.bundlePath);
+    let unchanged = 0;
+    for (const article of articles) {
+      if (shutdown.requested) break;
+
+      console.log(`\n📰 Processing: ${article.title}`);
+      if (this.checkConfidence(article, config) === "skip") continue;
+
+      const processed = await this.processArticle(
+        article,
+        previousVersions,
+        resolveArticleLink,
+      );
+      if (!processed) continue;
+      if (processed.action === "unchanged") {
+        unchanged++;
+        continue;
+      }
+
+      bundle.entries.push({
+        url: article.url,
+        title: article.title,
+        articleId: this.publisher.createArticleId(article.url),
+        action: processed.action,
+        pubkey,
+        event: this.publisher.buildArticleEvent(processed),
+      });
+    }
+
+    await bundle.save();
+    console.log(
+      `\n📦 Wrote ${bundle.entries.length} unsigned events to ${config.bundlePath} (${unchanged} unchanged)`,
+    );
+  }
+
+  /** Sign the unsigned events of a bundle, leaving signed ones alone */
+  async sign(config: SignConfig): Promise<void> {
+    const bundle = new EventBundle(config.bundlePath);
+    await bundle.load();
+
+    console.log("\n🔐 Initializing Nostr signer...");
+    await this.publisher.initialize(config.signerString, {
+      passwordFile: config.passwordFile,
+      sessionPath: config.sessionPath,
+    });
+    const pubkey = (await this.publisher.getPublicKey())!;
+
+    // Previous versions were looked up for this key, so another one would
+    // publish the updates as new articles
+    const mismatch = bundle.entries.find(
+      (entry) => entry.pubkey && entry.pubkey !== pubkey,
+    );
+    if (mismatch) {
+      throw new Error(
+        `The bundle was prepared for ${mismatch.pubkey}, not the signer's key ${pubkey}`,
+      );
+    }
+
+    const counts = { signed: 0, skipped: 0 };
+    for (const entry of bundle.entries) {
+      if (shutdown.requested) break;
+      if (isSignedEvent(entry.event)) {
+        counts.skipped++;
+        continue;
+      }
+
+      const signed = await this.publisher.signEvent(entry.event);
+      entry.event = signed;
+      console.log(`✍️  Signed ${entry.articleId}: ${signed.id}`);
+      counts.signed++;
+    }
+
+    await bundle.save(config.outPath);
+    console.log(
+      `\n📊 ${counts.signed} signed, ${counts.skipped} already signed, saved to ${config.outPath ?? config.bundlePath}`,
+    );
+  }
+
+  /**
+   * Broadcast the signed events of a bundle. The relays that accepted each
+   * event are saved in the bundle, so running it again only sends events to
+   * relays that don't have them yet. Returns false if any event failed.
+   */
+  async broadcast(config: BroadcastConfig): Promise<boolean> {
+    const bundle = new EventBundle(config.bundlePath);
+    await bundle.load();
+    const store = new StateStore(config.statePath);
+    await store.load();
+
+    const relays = this.publisher.getRelays(config.relays);
+    const counts = { broadcast: 0, skipped: 0, failed: 0 };
+
+    for (const [index, entry] of bundle.entries.entries()) {
+      if (shutdown.requested) break;
+
+      const { event } = entry;
+      if (!isSignedEvent(event)) {
+        console.warn(`⚠️  ${entry.articleId} is not signed, run "sign" first`);
+        counts.failed++;
+        continue;
+      }
+      if (!verifyEvent(event)) {
+        console.error(`❌ ${entry.articleId} has an invalid signature`);
+        counts.failed++;
+        continue;
+      }
+
+      const accepted = new Set(
+        entry.relays?.filter((r) => r.ok).map((r) => r.relay),
+      );
+      const pending = config.force
+        ? relays
+        : relays.filter((relay) => !accepted.has(relay));
+      if (pending.length === 0) {
+        console.log(`⏭️  ${entry.articleId} is already on every relay`);
+        counts.skipped++;
+        continue;
+      }
+
+      console.log(
+        `\n📖 Broadcasting ${entry.title} (${event.id}) to ${pending.length} relays`,
+      );
+      const results = await this.publisher.publishEvent(event, pending);
+      entry.relays = [
+        ...(entry.relays ?? []).filter((r) => !pending.includes(r.relay)),
+        ...results,
+      ];
+      await bundle.save();
+
+      if (results.some((r) => r.ok)) {
+        await this.recordBroadcast(store, entry, event);
+        counts.broadcast++;
+      } else {
+        counts.failed++;
+      }
+
+      if (index < bundle.entries.length - 1) {
+        await sleep(config.publishDelay, shutdown.signal);
+      }
+    }
+
+    console.log(
+      `\n📊 ${counts.broadcast} broadcast, ${counts.skipped} already on every relay, ${counts.failed} failed`,
+    );
+    return counts.failed === 0;
+  }
+
+  private async recordBroadcast(
+    store: StateStore,
+    entry: BundleEntry,
+    event: NostrEvent,
+  ): Promise<void> {
+    // Don't let an old bundle replace a newer version in the state file
+    const current = store.get(entry.articleId, event.pubkey);
+    if (current && current.lastPublishedAt > event.created_at) return;
+
+    store.upsert({
+      url: entry.url,
+      articleId: entry.articleId,
+      contentHash: hashArticleContent(event.content, event.tags),
+      eventId: event.id,
+      pubkey: event.pubkey,
+      publishedAt: event.tags.find((t) => t[0] === "published_at")?.[1],
+      firstPublishedAt: event.created_at,
+      lastPublishedAt: event.created_at,
+      relays: entry.relays!.filter((r) => r.ok).map((r) => r.relay),
+      images: getRecordedImages(event),
+    });
+    await store.save();
+  }
+
+  async status(statePath: string): Promise<void> {
+    const store = new StateStore(statePath);
+    await store.load();
+
+    const records = store.list();
+    console.log(`🗃️  State file: ${statePath}`);
+    if (records.length === 0) {
+      console.log("📭 No mirrored articles recorded yet.");
+      return;
+    }
+
+    console.log(`📚 ${records.length} mirrored articles:\n`);
+    records.forEach((record, index) => {
+      const first = new Date(record.firstPublishedAt * 1000).toISOString();
+      const last = new Date(record.lastPublishedAt * 1000).toISOString();
+
+      console.log(`${index + 1}. ${record.articleId} (${record.url})`);
+      console.log(`   📍 Event ID: ${record.eventId}`);
+      console.log(`   🔑 Pubkey: ${record.pubkey}`);
+      console.log(`   #️⃣  Hash: ${record.contentHash}`);
+      console.log(`   🕐 First published: ${first}`);
+      console.log(`   🕐 Last published: ${last}`);
+      console.log(
+        `   📡 Relays (${record.relays.length}): ${record.relays.join(", ") || "none"}`,
+      );
+    });
   }
 }
 
-// CLI interface using yargs
-async function main() {
-  const argv = await yargs(hideBin(process.argv))
-    .scriptName("rekt-nostr-mirror")
-    .usage(
-      "🔥 $0 [options]\n\nMirror rekt.news articles to Nostr as NIP-23 long-form content",
-    )
+// Relays used for the nostrconnect:// login flow
+const DEFAULT_CONNECT_RELAYS = ["wss://relay.nsec.app"];
+
+// Overlay a config file profile on the settings from the command line
+async function applyProfile<C extends Omit<Config, "articleLimit">>(
+  config: C,
+  profile: MirrorProfile,
+): Promise<C> {
+  const signerString = profile.signer
+    ? await resolveSignerReference(profile.signer)
+    : config.signerString;
+  if (!config.dryRun && !signerString) {
+    throw new Error(`Profile "${profile.name}" has no signer`);
+  }
+
+  return {
+    ...config,
+    name: profile.name,
+    signerString,
+    passwordFile: profile.passwordFile ?? config.passwordFile,
+    publishDelay: profile.delay ?? config.publishDelay,
+    relays: profile.relays ?? config.relays,
+    blossomServers: profile.blossom ?? config.blossomServers,
+    announce: profile.announce ?? config.announce,
+    statePath: getProfileStatePath(profile, config.statePath),
+  };
+}
+
+// Blossom copies to remember for an article, none keeps the ones recorded before
+function getRecordedImages(event: NostrEvent): MirroredImage[] | undefined {
+  const images = getMirroredImages(event.tags);
+  return images.length > 0 ? images : undefined;
+}
+
+// Whether the converter had to change anything in an article
+function hasSanitized(report: SanitizationReport): boolean {
+  return (
+    report.blockedUrls.length > 0 ||
+    report.trackingParams.length > 0 ||
+    report.escapedHtml.length > 0
+  );
+}
+
+// Build the HTTP client the sources fetch pages with
+function createHttpClient(argv: {
+  concurrency: number;
+  requestTimeout: number;
+  httpCache?: string;
+  record?: string;
+  replay?: string;
+}): HttpClient {
+  return new HttpClient({
+    concurrency: argv.concurrency,
+    timeoutMs: argv.requestTimeout * 1000,
+    cacheDir: argv.httpCache,
+    recordDir: argv.record,
+    replayDir: argv.replay,
+  });
+}
+
+// Options shared by every command that mirrors articles
+function withMirrorOptions<T extends { config?: string }>(yargs: Argv<T>) {
+  return withHttpOptions(yargs)
+    .option("source", {
+      type: "string",
+      describe: "Where to mirror from: 'rekt' or an RSS/Atom feed URL",
+      default: "rekt",
+    })
+    .option("blossom", {
+      type: "string",
+      describe: "Comma-separated Blossom servers to mirror article images to",
+      coerce: (arg: string) =>
+        arg ? arg.split(",").map((r) => r.trim()) : undefined,
+    })
+    .option("announce", {
+      type: "boolean",
+      describe: "Also publish a kind 1 note for each newly mirrored article",
+      default: false,
+    })
+    .option("attack-labels", {
+      choices: ["tags", "events", "both", "off"] as const,
+      describe:
+        "Publish attack categories as label tags on the article, kind 1985 label events, both or not at all",
+      default: "tags" as AttackLabelMode,
+    })
+    .option("attack-rules", {
+      type: "string",
+      describe: "YAML or JSON file with the attack classifier rules",
+    })
+    .option("announce-template", {
+      type: "string",
+      describe:
+        "File with the note template ({title}, {summary}, {naddr}, {url}, {hashtags})",
+      coerce: (path: string) =>
+        path ? readFileSync(path, "utf-8") : undefined,
+    })
     .option("signer", {
       alias: "s",
       type: "string",
-      describe: "Nostr signer (nsec key or bunker:// URI)",
+      describe: "Nostr signer (nsec, ncryptsec key or bunker:// URI)",
       demandOption: false, // We'll check this conditionally based on dry-run
     })
-    .option("limit", {
-      alias: "l",
+    .option("password-file", {
+      type: "string",
+      describe: `File with the ncryptsec password (or set ${PASSWORD_ENV_VAR})`,
+    })
+    .option("min-confidence", {
       type: "number",
-      describe: "Number of articles to fetch",
-      default: 50,
+      describe:
+        "Skip articles whose body was extracted with less confidence than this (0-1)",
+      default: DEFAULT_MIN_CONFIDENCE,
+    })
+    .option("review-confidence", {
+      type: "number",
+      describe:
+        "Flag articles extracted with less confidence than this for review (0-1)",
+      default: DEFAULT_REVIEW_CONFIDENCE,
     })
     .option("delay", {
       alias: "d",
@@ -189,75 +1646,942 @@ async function main() {
       describe: "Skip already published articles",
       default: true,
     })
+    .option("preflight", {
+      type: "boolean",
+      describe:
+        "Check that the site structure still matches the scraper before running",
+      default: true,
+    })
     .option("dry-run", {
       type: "boolean",
       describe: "Preview mode - don't actually publish",
       default: false,
     })
-    .example("$0 --dry-run --limit 3", "Preview 3 latest articles")
-    .example(
-      "$0 --signer nsec1... --limit 5",
-      "Publish 5 articles with nsec key",
-    )
-    .example(
-      '$0 --signer "bunker://..." --relays "wss://relay1.com,wss://relay2.com"',
-      "Use bunker signer with custom relays",
-    )
-    .example(
-      "$0 --signer nsec1... --limit 2 --delay 1000 --no-skip-existing",
-      "Quick publish with short delay",
-    )
     .check((argv) => {
-      // Custom validation: require signer unless dry-run
-      if (!argv.dryRun && !argv.signer) {
+      // Custom validation: require signer unless dry-run (profiles bring their own)
+      if (!argv.dryRun && !argv.signer && !argv.config) {
         throw new Error(
-          "❌ --signer is required (unless using --dry-run)\n   Use an nsec key or bunker:// URI",
+          "❌ --signer is required (unless using --dry-run)\n   Use an nsec, ncryptsec key or bunker:// URI",
         );
       }
 
-      // Validate limit
-      if (argv.limit <= 0) {
-        throw new Error("❌ --limit must be a positive number");
-      }
-
       // Validate delay
       if (argv.delay < 0) {
         throw new Error("❌ --delay must be a non-negative number");
       }
 
+      const isRatio = (value: number) => value >= 0 && value <= 1;
+      if (
+        !isRatio(argv["min-confidence"]) ||
+        !isRatio(argv["review-confidence"])
+      ) {
+        throw new Error(
+          "❌ --min-confidence and --review-confidence must be between 0 and 1",
+        );
+      }
+
+      return true;
+    });
+}
+
+// Options for how sources fetch pages
+function withHttpOptions<T>(yargs: Argv<T>) {
+  return yargs
+    .option("concurrency", {
+      type: "number",
+      describe: "Maximum parallel requests to the source",
+      default: 4,
+    })
+    .option("request-timeout", {
+      type: "number",
+      describe: "Timeout for each request to the source (seconds)",
+      default: 30,
+    })
+    .option("http-cache", {
+      type: "string",
+      describe:
+        "Directory to keep ETag/Last-Modified data in so unchanged pages aren't downloaded again",
+    })
+    .option("record", {
+      type: "string",
+      describe: "Save every fetched page to this directory for --replay",
+      conflicts: "replay",
+    })
+    .option("replay", {
+      type: "string",
+      describe:
+        "Serve pages saved with --record from this directory instead of the network",
+    })
+    .check((argv) => {
+      if (argv.concurrency < 1) {
+        throw new Error("❌ --concurrency must be at least 1");
+      }
       return true;
+    });
+}
+
+// Load the selected profiles, exiting with a readable error if the file is invalid
+async function loadProfiles(
+  path: string,
+  names?: string[],
+): Promise<MirrorProfile[]> {
+  try {
+    return selectProfiles(await loadConfigFile(path), names);
+  } catch (error) {
+    console.error("❌", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+// CLI interface using yargs
+async function main() {
+  await yargs(hideBin(process.argv))
+    .scriptName("rekt-nostr-mirror")
+    .usage(
+      "🔥 $0 [command] [options]\n\nMirror rekt.news articles to Nostr as NIP-23 long-form content",
+    )
+    .option("state", {
+      type: "string",
+      describe: "Path to the JSON state file of mirrored articles",
+      default: "mirror-state.json",
+    })
+    .option("session", {
+      type: "string",
+      describe: "Path to the file with saved NIP-46 signer sessions",
+      default: "nostr-session.json",
+    })
+    .option("log-format", {
+      type: "string",
+      choices: ["text", "json"] as const,
+      describe: "Log output format",
+      default: "text" as LogFormat,
     })
+    .middleware((argv) => setLogFormat(argv.logFormat))
+    .option("config", {
+      alias: "c",
+      type: "string",
+      describe: "YAML or JSON file with mirror profiles",
+    })
+    .option("profile", {
+      alias: "p",
+      type: "string",
+      array: true,
+      describe: "Profiles from the config file to run (default: all)",
+    })
+    .command(
+      "$0",
+      "Mirror the latest articles to Nostr",
+      (yargs) =>
+        withMirrorOptions(yargs)
+          .option("limit", {
+            alias: "l",
+            type: "number",
+            describe: "Number of articles to fetch",
+            default: 50,
+          })
+          .example("$0 --dry-run --limit 3", "Preview 3 latest articles")
+          .example(
+            "$0 --signer nsec1... --limit 5",
+            "Publish 5 articles with nsec key",
+          )
+          .example(
+            '$0 --signer "bunker://..." --relays "wss://relay1.com,wss://relay2.com"',
+            "Use bunker signer with custom relays",
+          )
+          .example(
+            "$0 --source https://example.com/feed.xml --dry-run",
+            "Preview articles from an RSS/Atom feed",
+          )
+          .option("report", {
+            type: "string",
+            describe: "Write a JSON summary of the run to this file",
+          })
+          .option("markdown-dir", {
+            type: "string",
+            describe:
+              "Write the converted markdown of each article to this directory",
+          })
+          .example(
+            "$0 --record fixtures/pages --dry-run --limit 3",
+            "Save the scraped pages for offline runs",
+          )
+          .example(
+            "$0 --replay fixtures/pages --dry-run --no-skip-existing --markdown-dir out",
+            "Convert the saved pages without network access",
+          )
+          .example(
+            "$0 --config mirror.yaml --profile rekt",
+            "Run one profile from a config file",
+          )
+          .example(
+            "$0 --signer nsec1... --log-format json --report report.json",
+            "Structured logs and a JSON report for automation",
+          )
+          .example(
+            "$0 --signer nsec1... --limit 2 --delay 1000 --no-skip-existing",
+            "Quick publish with short delay",
+          )
+          .check((argv) => {
+            // Validate limit
+            if (argv.limit <= 0) {
+              throw new Error("❌ --limit must be a positive number");
+            }
+
+            return true;
+          }),
+      async (argv) => {
+        const http = createHttpClient(argv);
+
+        // Build config from parsed arguments
+        const config: Config = {
+          signerString: argv.signer || "",
+          passwordFile: argv.passwordFile,
+          sessionPath: argv.session,
+          articleLimit: argv.limit,
+          publishDelay: argv.delay,
+          relays: argv.relays,
+          skipExisting: argv.skipExisting,
+          dryRun: argv.dryRun,
+          preflight: argv.preflight,
+          minConfidence: argv.minConfidence,
+          reviewConfidence: argv.reviewConfidence,
+          statePath: argv.state,
+          blossomServers: argv.blossom,
+          http,
+          announce: argv.announce,
+          announceTemplate: argv.announceTemplate,
+          attackLabels: argv.attackLabels,
+          attackRules: argv.attackRules,
+          markdownDir: argv.markdownDir,
+        };
+
+        const runs: RunSummary[] = [];
+        if (!argv.config) {
+          // Run the mirror
+          const mirror = new RektNostrMirror(createSource(argv.source, http));
+          runs.push(await mirror.run(config));
+        } else {
+          // Run each selected profile, carrying on if one of them fails
+          for (const profile of await loadProfiles(argv.config, argv.profile)) {
+            console.log(`\n👤 Running profile "${profile.name}"`);
+            try {
+              const mirror = new RektNostrMirror(
+                createSource(profile.source ?? argv.source, http),
+                { subjects: profile.subjects, hashtags: profile.tags },
+              );
+              runs.push(
+                await mirror.run({
+                  ...(await applyProfile(config, profile)),
+                  articleLimit: profile.limit ?? config.articleLimit,
+                }),
+              );
+            } catch (error) {
+              // The profile couldn't be set up, e.g. an invalid source
+              const message =
+                error instanceof Error ? error.message : String(error);
+              console.error(`❌ Profile "${profile.name}" failed: ${message}`);
+              runs.push(createFailedRun(profile.name, message, config.dryRun));
+            }
+          }
+        }
+
+        if (argv.report) {
+          await writeRunReport(argv.report, runs);
+          console.log(`🧾 Wrote run report to ${argv.report}`);
+        }
+
+        // Exit non-zero so schedulers and CI notice failed runs or publishes
+        const failedRuns = runs.filter((run) => !run.ok);
+        const failedArticles = runs.reduce((sum, run) => sum + run.failed, 0);
+        if (failedRuns.length > 0 || failedArticles > 0) {
+          console.error(
+            `\n💥 ${failedRuns.length} failed runs, ${failedArticles} articles failed to publish`,
+          );
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "backfill",
+      "Mirror every historical article, oldest-first (resumable)",
+      (yargs) =>
+        withMirrorOptions(yargs)
+          .option("checkpoint", {
+            type: "string",
+            describe: "Path to the backfill checkpoint file",
+            default: "backfill-checkpoint.json",
+          })
+          .option("restart", {
+            type: "boolean",
+            describe: "Ignore an existing checkpoint and start over",
+            default: false,
+          })
+          .example(
+            "$0 backfill --signer nsec1... --delay 10000",
+            "Mirror the full archive, resuming if interrupted",
+          ),
+      async (argv) => {
+        const http = createHttpClient(argv);
+        const config: BackfillConfig = {
+          signerString: argv.signer || "",
+          passwordFile: argv.passwordFile,
+          sessionPath: argv.session,
+          publishDelay: argv.delay,
+          relays: argv.relays,
+          skipExisting: argv.skipExisting,
+          dryRun: argv.dryRun,
+          preflight: argv.preflight,
+          minConfidence: argv.minConfidence,
+          reviewConfidence: argv.reviewConfidence,
+          statePath: argv.state,
+          blossomServers: argv.blossom,
+          http,
+          announce: argv.announce,
+          announceTemplate: argv.announceTemplate,
+          attackLabels: argv.attackLabels,
+          attackRules: argv.attackRules,
+          checkpointPath: argv.checkpoint,
+          restart: argv.restart,
+        };
+
+        // Exit non-zero like run does when articles failed
+        if (!argv.config) {
+          const mirror = new RektNostrMirror(createSource(argv.source, http));
+          if (!(await mirror.backfill(config))) process.exit(1);
+          return;
+        }
+
+        // A checkpoint belongs to a single source, so backfill one profile
+        const profiles = await loadProfiles(argv.config, argv.profile);
+        const profile = profiles[0];
+        if (!profile || profiles.length > 1) {
+          console.error("❌ backfill needs exactly one --profile");
+          process.exit(1);
+        }
+
+        const mirror = new RektNostrMirror(
+          createSource(profile.source ?? argv.source, http),
+          { subjects: profile.subjects, hashtags: profile.tags },
+        );
+        const ok = await mirror.backfill(await applyProfile(config, profile));
+        if (!ok) process.exit(1);
+      },
+    )
+    .command(
+      "daemon",
+      "Keep running and mirror new articles on an interval",
+      (yargs) =>
+        withMirrorOptions(yargs)
+          .option("limit", {
+            alias: "l",
+            type: "number",
+            describe: "Number of articles to fetch per poll",
+            default: 10,
+          })
+          .option("interval", {
+            alias: "i",
+            type: "number",
+            describe: "Minutes between polls",
+            default: 60,
+          })
+          .option("jitter", {
+            type: "number",
+            describe: "Maximum random delay added to each interval (minutes)",
+            default: 5,
+          })
+          .option("failure-threshold", {
+            type: "number",
+            describe: "Consecutive failed polls before backing off",
+            default: 3,
+          })
+          .option("max-backoff", {
+            type: "number",
+            describe: "Longest wait between polls while backing off (minutes)",
+            default: 24 * 60,
+          })
+          .option("http-port", {
+            type: "number",
+            describe: "Serve /healthz, /status and /metrics on this port",
+          })
+          .option("http-host", {
+            type: "string",
+            describe: "Address for the status server to listen on",
+            default: "127.0.0.1",
+          })
+          .example(
+            "$0 daemon --signer nsec1... --interval 30",
+            "Poll rekt.news every 30 minutes",
+          )
+          .example(
+            "$0 daemon --config mirror.yaml",
+            "Poll every profile in a config file",
+          )
+          .check((argv) => {
+            if (argv.limit <= 0) {
+              throw new Error("❌ --limit must be a positive number");
+            }
+            if (argv.interval <= 0) {
+              throw new Error("❌ --interval must be a positive number");
+            }
+            if (argv.jitter < 0) {
+              throw new Error("❌ --jitter must be a non-negative number");
+            }
+
+            return true;
+          }),
+      async (argv) => {
+        const http = createHttpClient(argv);
+        const minutes = 60 * 1000;
+        const config: DaemonConfig = {
+          signerString: argv.signer || "",
+          passwordFile: argv.passwordFile,
+          sessionPath: argv.session,
+          articleLimit: argv.limit,
+          publishDelay: argv.delay,
+          relays: argv.relays,
+          skipExisting: argv.skipExisting,
+          dryRun: argv.dryRun,
+          preflight: argv.preflight,
+          minConfidence: argv.minConfidence,
+          reviewConfidence: argv.reviewConfidence,
+          statePath: argv.state,
+          blossomServers: argv.blossom,
+          http,
+          announce: argv.announce,
+          announceTemplate: argv.announceTemplate,
+          attackLabels: argv.attackLabels,
+          attackRules: argv.attackRules,
+          intervalMs: argv.interval * minutes,
+          jitterMs: argv.jitter * minutes,
+          failureThreshold: argv.failureThreshold,
+          maxBackoffMs: Math.max(
+            argv.maxBackoff * minutes,
+            argv.interval * minutes,
+          ),
+          httpPort: argv.httpPort,
+          httpHost: argv.httpHost,
+        };
+
+        const server =
+          config.httpPort !== undefined
+            ? startStatusServer(metrics, config.httpPort, config.httpHost)
+            : null;
+        shutdown.signal.addEventListener("abort", () => server?.stop(), {
+          once: true,
+        });
+
+        if (!argv.config) {
+          const mirror = new RektNostrMirror(createSource(argv.source, http));
+          await mirror.daemon(config);
+          process.exit(0);
+        }
+
+        // Each profile polls on its own schedule so one failing source
+        // doesn't delay the others
+        const profiles = await loadProfiles(argv.config, argv.profile);
+        const statePaths = profiles.map((profile) =>
+          getProfileStatePath(profile, config.statePath),
+        );
+        const shared = statePaths.find(
+          (path, index) => statePaths.indexOf(path) !== index,
+        );
+        if (shared) {
+          console.error(
+            `❌ Profiles running at the same time can't share the state file ${shared}`,
+          );
+          process.exit(1);
+        }
+
+        let failed = 0;
+        await Promise.all(
+          profiles.map(async (profile) => {
+            try {
+              const mirror = new RektNostrMirror(
+                createSource(profile.source ?? argv.source, http),
+                { subjects: profile.subjects, hashtags: profile.tags },
+              );
+              await mirror.daemon({
+                ...(await applyProfile(config, profile)),
+                articleLimit: profile.limit ?? config.articleLimit,
+              });
+            } catch (error) {
+              failed++;
+              if (error instanceof Error)
+                console.error(
+                  `❌ Profile "${profile.name}" failed: ${error.message}`,
+                );
+            }
+          }),
+        );
+        process.exit(failed > 0 ? 1 : 0);
+      },
+    )
+    .command(
+      "login",
+      "Connect a remote signer with a nostrconnect:// QR code",
+      (yargs) =>
+        yargs
+          .option("relays", {
+            alias: "r",
+            type: "string",
+            describe: "Comma-separated relays to talk to the remote signer on",
+            default: DEFAULT_CONNECT_RELAYS.join(","),
+            coerce: (arg: string) => arg.split(",").map((r) => r.trim()),
+          })
+          .example("$0 login", "Show a QR code to scan with a remote signer"),
+      async (argv) => {
+        try {
+          const bunkerURI = await loginWithNostrConnect(
+            argv.relays,
+            argv.session,
+          );
+          console.log(
+            `\n✅ Remote signer connected, session saved to ${argv.session}`,
+          );
+          console.log(`🔑 Use it with: --signer "${bunkerURI}"`);
+          process.exit(0);
+        } catch (error) {
+          console.error("❌ Login failed:", error);
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "doctor",
+      "Check that the site still has the structure the scraper expects",
+      (yargs) =>
+        withHttpOptions(yargs)
+          .option("source", {
+            type: "string",
+            describe: "Source to check: 'rekt' or an RSS/Atom feed URL",
+            default: "rekt",
+          })
+          .option("sample", {
+            type: "number",
+            describe: "Number of article pages to check",
+            default: 3,
+          })
+          .example("$0 doctor", "Check the rekt.news listing and 3 articles"),
+      async (argv) => {
+        const source = createSource(argv.source, createHttpClient(argv));
+        if (!source.checkStructure) {
+          console.log(`ℹ️  ${source.name} has no page structure to check`);
+          return;
+        }
+
+        try {
+          const check = await source.checkStructure(argv.sample);
+          const problems = findStructureProblems(check);
+          printStructureCheck(check, problems);
+          if (problems.some(({ level }) => level === "error")) process.exit(1);
+        } catch (error) {
+          console.error(
+            "❌ Structure check failed:",
+            error instanceof Error ? error.message : error,
+          );
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "label",
+      "Label already mirrored articles with kind 1985 attack category events",
+      (yargs) =>
+        yargs
+          .option("signer", {
+            alias: "s",
+            type: "string",
+            describe: "Nostr signer (nsec, ncryptsec key or bunker:// URI)",
+            demandOption: true,
+          })
+          .option("password-file", {
+            type: "string",
+            describe: `File with the ncryptsec password (or set ${PASSWORD_ENV_VAR})`,
+          })
+          .option("relays", {
+            alias: "r",
+            type: "string",
+            describe: "Comma-separated relay URLs",
+            coerce: (arg: string) =>
+              arg ? arg.split(",").map((r) => r.trim()) : undefined,
+          })
+          .option("attack-rules", {
+            type: "string",
+            describe: "YAML or JSON file with the attack classifier rules",
+          })
+          .option("delay", {
+            alias: "d",
+            type: "number",
+            describe: "Delay between label events (milliseconds)",
+            default: 1000,
+          })
+          .option("dry-run", {
+            type: "boolean",
+            describe: "Only show the categories, don't publish",
+            default: false,
+          })
+          .example(
+            "$0 label --signer nsec1... --dry-run",
+            "Preview the attack categories of every mirrored article",
+          ),
+      async (argv) => {
+        try {
+          const mirror = new RektNostrMirror();
+          await mirror.label({
+            signerString: argv.signer,
+            passwordFile: argv.passwordFile,
+            sessionPath: argv.session,
+            relays: argv.relays,
+            statePath: argv.state,
+            dryRun: argv.dryRun,
+            publishDelay: argv.delay,
+            attackRules: argv.attackRules,
+          });
+          process.exit(0);
+        } catch (error) {
+          console.error(
+            "❌ Labelling failed:",
+            error instanceof Error ? error.message : error,
+          );
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "export",
+      "Write the mirrored articles as a Hugo/Jekyll markdown directory",
+      (yargs) =>
+        withHttpOptions(yargs)
+          .option("out", {
+            alias: "o",
+            type: "string",
+            describe: "Directory to write the markdown files to",
+            default: "export",
+          })
+          .option("from", {
+            type: "string",
+            choices: ["source", "relays"] as const,
+            describe:
+              "Convert the articles from the source, or read the published events back from the relays",
+            default: "source" as ExportFrom,
+          })
+          .option("download-images", {
+            type: "boolean",
+            describe:
+              "Download the images next to each article (as Hugo page bundles)",
+            default: false,
+          })
+          .option("source", {
+            type: "string",
+            describe: "Source to export: 'rekt' or an RSS/Atom feed URL",
+            default: "rekt",
+          })
+          .option("limit", {
+            alias: "l",
+            type: "number",
+            describe: "Number of articles to fetch from the source",
+            default: 50,
+          })
+          .option("min-confidence", {
+            type: "number",
+            describe:
+              "Skip articles whose body was extracted with less confidence than this (0-1)",
+            default: DEFAULT_MIN_CONFIDENCE,
+          })
+          .option("pubkey", {
+            type: "string",
+            describe:
+              "Public key (hex or npub) the articles are published under",
+          })
+          .option("signer", {
+            alias: "s",
+            type: "string",
+            describe:
+              "Nostr signer (nsec, ncryptsec key or bunker:// URI), used for its pubkey",
+          })
+          .option("password-file", {
+            type: "string",
+            describe: `File with the ncryptsec password (or set ${PASSWORD_ENV_VAR})`,
+          })
+          .option("relays", {
+            alias: "r",
+            type: "string",
+            describe: "Comma-separated relay URLs",
+            coerce: (arg: string) =>
+              arg ? arg.split(",").map((r) => r.trim()) : undefined,
+          })
+          .example(
+            "$0 export --out content/posts --pubkey npub1...",
+            "Convert the latest articles into a Hugo content directory",
+          )
+          .example(
+            "$0 export --from relays --pubkey npub1... --download-images",
+            "Archive the published events with their images",
+          ),
+      async (argv) => {
+        try {
+          const http = createHttpClient(argv);
+          const mirror = new RektNostrMirror(createSource(argv.source, http));
+          await mirror.export({
+            signerString: argv.signer,
+            passwordFile: argv.passwordFile,
+            sessionPath: argv.session,
+            pubkey: argv.pubkey,
+            relays: argv.relays,
+            statePath: argv.state,
+            articleLimit: argv.limit,
+            minConfidence: argv.minConfidence,
+            reviewConfidence: DEFAULT_REVIEW_CONFIDENCE,
+            from: argv.from,
+            outDir: argv.out,
+            downloadImages: argv.downloadImages,
+            http,
+          });
+          process.exit(0);
+        } catch (error) {
+          console.error(
+            "❌ Export failed:",
+            error instanceof Error ? error.message : error,
+          );
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "prepare <bundle>",
+      "Write the latest articles as unsigned events to a JSONL bundle",
+      (yargs) =>
+        withHttpOptions(yargs)
+          .positional("bundle", {
+            type: "string",
+            describe: "JSONL file to write the unsigned events to",
+            demandOption: true,
+          })
+          .option("source", {
+            type: "string",
+            describe: "Source to mirror: 'rekt' or an RSS/Atom feed URL",
+            default: "rekt",
+          })
+          .option("limit", {
+            alias: "l",
+            type: "number",
+            describe: "Number of articles to fetch",
+            default: 10,
+          })
+          .option("pubkey", {
+            type: "string",
+            describe:
+              "Public key (hex or npub) that will sign the bundle, to find already published versions",
+          })
+          .option("relays", {
+            alias: "r",
+            type: "string",
+            describe: "Comma-separated relay URLs",
+            coerce: (arg: string) =>
+              arg ? arg.split(",").map((r) => r.trim()) : undefined,
+          })
+          .option("skip-existing", {
+            type: "boolean",
+            describe: "Leave out articles that are unchanged since publishing",
+            default: true,
+          })
+          .option("preflight", {
+            type: "boolean",
+            describe:
+              "Check that the site structure still matches the scraper before running",
+            default: true,
+          })
+          .option("min-confidence", {
+            type: "number",
+            describe:
+              "Skip articles whose body was extracted with less confidence than this (0-1)",
+            default: DEFAULT_MIN_CONFIDENCE,
+          })
+          .option("review-confidence", {
+            type: "number",
+            describe:
+              "Flag articles extracted with less confidence than this for review (0-1)",
+            default: DEFAULT_REVIEW_CONFIDENCE,
+          })
+          .option("attack-labels", {
+            choices: ["tags", "off"] as const,
+            describe: "Put attack category label tags on the articles or not",
+            default: "tags" as PrepareConfig["attackLabels"],
+          })
+          .option("attack-rules", {
+            type: "string",
+            describe: "YAML or JSON file with the attack classifier rules",
+          })
+          .example(
+            "$0 prepare bundle.jsonl --pubkey npub1...",
+            "Convert the latest articles without a signing key",
+          )
+          .check((argv) => {
+            const isRatio = (value: number) => value >= 0 && value <= 1;
+            if (
+              !isRatio(argv["min-confidence"]) ||
+              !isRatio(argv["review-confidence"])
+            ) {
+              throw new Error(
+                "❌ --min-confidence and --review-confidence must be between 0 and 1",
+              );
+            }
+            return true;
+          }),
+      async (argv) => {
+        try {
+          const mirror = new RektNostrMirror(
+            createSource(argv.source, createHttpClient(argv)),
+          );
+          await mirror.prepare({
+            bundlePath: argv.bundle,
+            pubkey: argv.pubkey,
+            relays: argv.relays,
+            statePath: argv.state,
+            articleLimit: argv.limit,
+            skipExisting: argv.skipExisting,
+            preflight: argv.preflight,
+            minConfidence: argv.minConfidence,
+            reviewConfidence: argv.reviewConfidence,
+            attackLabels: argv.attackLabels,
+            attackRules: argv.attackRules,
+          });
+          process.exit(0);
+        } catch (error) {
+          console.error(
+            "❌ Prepare failed:",
+            error instanceof Error ? error.message : error,
+          );
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "sign <bundle>",
+      "Sign the unsigned events of a bundle",
+      (yargs) =>
+        yargs
+          .positional("bundle", {
+            type: "string",
+            describe: "JSONL bundle written by prepare",
+            demandOption: true,
+          })
+          .option("signer", {
+            alias: "s",
+            type: "string",
+            describe: "Nostr signer (nsec, ncryptsec key or bunker:// URI)",
+            demandOption: true,
+          })
+          .option("password-file", {
+            type: "string",
+            describe: `File with the ncryptsec password (or set ${PASSWORD_ENV_VAR})`,
+          })
+          .option("out", {
+            alias: "o",
+            type: "string",
+            describe: "Write the signed bundle here instead of in place",
+          })
+          .example(
+            "$0 sign bundle.jsonl --signer ncryptsec1...",
+            "Sign a bundle on the machine that holds the key",
+          ),
+      async (argv) => {
+        try {
+          const mirror = new RektNostrMirror();
+          await mirror.sign({
+            bundlePath: argv.bundle,
+            outPath: argv.out,
+            signerString: argv.signer,
+            passwordFile: argv.passwordFile,
+            sessionPath: argv.session,
+          });
+          process.exit(0);
+        } catch (error) {
+          console.error(
+            "❌ Signing failed:",
+            error instanceof Error ? error.message : error,
+          );
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "broadcast <bundle>",
+      "Publish the signed events of a bundle to the relays",
+      (yargs) =>
+        yargs
+          .positional("bundle", {
+            type: "string",
+            describe: "Signed JSONL bundle",
+            demandOption: true,
+          })
+          .option("relays", {
+            alias: "r",
+            type: "string",
+            describe: "Comma-separated relay URLs",
+            coerce: (arg: string) =>
+              arg ? arg.split(",").map((r) => r.trim()) : undefined,
+          })
+          .option("delay", {
+            alias: "d",
+            type: "number",
+            describe: "Delay between events (milliseconds)",
+            default: 1000,
+          })
+          .option("force", {
+            type: "boolean",
+            describe: "Also send events to relays that already accepted them",
+            default: false,
+          })
+          .example(
+            "$0 broadcast bundle.jsonl",
+            "Publish a signed bundle to the default relays",
+          )
+          .example(
+            "$0 broadcast bundle.jsonl --relays wss://nos.lol",
+            "Send the same events to another relay later",
+          ),
+      async (argv) => {
+        try {
+          const mirror = new RektNostrMirror();
+          const ok = await mirror.broadcast({
+            bundlePath: argv.bundle,
+            relays: argv.relays,
+            statePath: argv.state,
+            publishDelay: argv.delay,
+            force: argv.force,
+          });
+          process.exit(ok ? 0 : 1);
+        } catch (error) {
+          console.error(
+            "❌ Broadcast failed:",
+            error instanceof Error ? error.message : error,
+          );
+          process.exit(1);
+        }
+      },
+    )
+    .command(
+      "status",
+      "List the articles recorded in the state file",
+      (yargs) =>
+        yargs.example("$0 status --state ./mirror-state.json", "Show state"),
+      async (argv) => {
+        const mirror = new RektNostrMirror();
+        await mirror.status(argv.state);
+      },
+    )
     .help()
     .alias("help", "h")
     .version("1.0.0")
     .alias("version", "v")
     .wrap(Math.min(120, yargs().terminalWidth()))
     .parseAsync();
-
-  // Build config from parsed arguments
-  const config: Config = {
-    signerString: argv.signer || "",
-    articleLimit: argv.limit,
-    publishDelay: argv.delay,
-    relays: argv.relays,
-    dryRun: argv.dryRun,
-  };
-
-  // Run the mirror
-  const mirror = new RektNostrMirror();
-  await mirror.run(config);
 }
 
-// Handle process signals gracefully
-process.on("SIGINT", () => {
-  console.log("\n⚠️  Received SIGINT, shutting down gracefully...");
-  process.exit(0);
-});
-
-process.on("SIGTERM", () => {
-  console.log("\n⚠️  Received SIGTERM, shutting down gracefully...");
-  process.exit(0);
-});
+// Handle process signals gracefully, letting the current article finish
+process.on("SIGINT", () => shutdown.request("SIGINT"));
+process.on("SIGTERM", () => shutdown.request("SIGTERM"));
 
 // Run the script
 if (import.meta.main) {
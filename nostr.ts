@@ -1,28 +1,55 @@
 import { RelayPool } from "applesauce-relay";
 import {
+  Helpers,
   NostrConnectSigner,
+  PasswordSigner,
   PrivateKeySigner,
   type ISigner,
 } from "applesauce-signers";
+import { bytesToHex } from "applesauce-core/helpers";
+import { readFile } from "node:fs/promises";
+import qrcode from "qrcode-terminal";
+import { SessionStore } from "./src/signer-session";
 
 // Create relay pool
 export const pool = new RelayPool({ keepAlive: 0 });
 
-// Function to create a signer from a string (nsec key or bunker URI)
-export async function createSigner(signerString: string): Promise<ISigner> {
+// Environment variable checked for the ncryptsec password
+export const PASSWORD_ENV_VAR = "NOSTR_KEY_PASSWORD";
+
+// Event kinds the mirror asks a remote signer to sign
+const SIGNING_PERMISSIONS = NostrConnectSigner.buildSigningPermissions([
+  1, 1985, 30023, 24242,
+]);
+
+export interface SignerOptions {
+  passwordFile?: string; // File containing the ncryptsec password
+  sessionPath?: string; // File to save NIP-46 client sessions in
+}
+
+// Function to create a signer from a string (nsec key, ncryptsec key or bunker URI)
+export async function createSigner(
+  signerString: string,
+  options: SignerOptions = {},
+): Promise<ISigner> {
   let signer: ISigner;
 
   if (signerString.startsWith("nsec")) {
     signer = PrivateKeySigner.fromKey(signerString);
   } else if (signerString.startsWith("ncryptsec")) {
-    throw new Error("Ncryptsec signers are not supported");
+    // The decrypted key only ever lives in the signer's memory
+    const password = await getPassword(options);
+    signer = await PasswordSigner.fromNcryptsec(signerString, password);
   } else if (signerString.startsWith("bunker://")) {
-    NostrConnectSigner.subscriptionMethod = pool.subscription.bind(pool);
-    NostrConnectSigner.publishMethod = pool.publish.bind(pool);
-    signer = await NostrConnectSigner.fromBunkerURI(signerString);
+    setupNostrConnect();
+    signer = options.sessionPath
+      ? await connectWithSession(signerString, options.sessionPath)
+      : await NostrConnectSigner.fromBunkerURI(signerString, {
+          permissions: SIGNING_PERMISSIONS,
+        });
   } else {
     throw new Error(
-      `Invalid signer provided: ${signerString.substring(0, 10)}... Must start with 'nsec' or 'bunker://'`,
+      `Invalid signer provided: ${signerString.substring(0, 10)}... Must start with 'nsec', 'ncryptsec' or 'bunker://'`,
     );
   }
 
@@ -31,3 +58,173 @@ export async function createSigner(signerString: string): Promise<ISigner> {
 
   return signer;
 }
+
+function setupNostrConnect() {
+  NostrConnectSigner.subscriptionMethod = pool.subscription.bind(pool);
+  NostrConnectSigner.publishMethod = pool.publish.bind(pool);
+}
+
+// Connect to a bunker reusing the saved client keypair so the remote signer
+// doesn't ask for approval again
+async function connectWithSession(
+  bunkerURI: string,
+  sessionPath: string,
+): Promise<NostrConnectSigner> {
+  const { remote, relays } = NostrConnectSigner.parseBunkerURI(bunkerURI);
+  const sessions = new SessionStore(sessionPath);
+  await sessions.load();
+
+  const saved = sessions.get(remote);
+  if (saved) {
+    const signer = new NostrConnectSigner({
+      relays: saved.relays,
+      remote,
+      pubkey: saved.pubkey,
+      signer: PrivateKeySigner.fromKey(saved.clientKey),
+    });
+
+    try {
+      await signer.connect(undefined, SIGNING_PERMISSIONS);
+      console.log(`🔁 Reconnected to remote signer using ${sessionPath}`);
+      return signer;
+    } catch (error) {
+      if (error instanceof Error)
+        console.warn(
+          `⚠️  Saved session was rejected (${error.message}), connecting again...`,
+        );
+      sessions.delete(remote);
+    }
+  }
+
+  const client = new PrivateKeySigner();
+  const signer = await NostrConnectSigner.fromBunkerURI(bunkerURI, {
+    signer: client,
+    permissions: SIGNING_PERMISSIONS,
+  });
+
+  sessions.set({
+    remote,
+    pubkey: await signer.getPublicKey(),
+    relays,
+    clientKey: bytesToHex(client.key),
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+  await sessions.save();
+  console.log(`💾 Saved remote signer session to ${sessionPath}`);
+
+  return signer;
+}
+
+/**
+ * Start a client-initiated nostrconnect:// login. Prints the URI as a QR
+ * code, waits for the remote signer to connect and saves the session.
+ * Returns a bunker:// URI that can be passed as --signer.
+ */
+export async function loginWithNostrConnect(
+  relays: string[],
+  sessionPath: string,
+  timeoutMs = 5 * 60 * 1000,
+): Promise<string> {
+  setupNostrConnect();
+
+  const client = new PrivateKeySigner();
+  const signer = new NostrConnectSigner({ relays, signer: client });
+  const uri = signer.getNostrConnectURI({
+    name: "rekt-nostr-mirror",
+    permissions: SIGNING_PERMISSIONS,
+  });
+
+  console.log("📱 Scan with your remote signer or paste the URI:\n");
+  qrcode.generate(uri, { small: true });
+  console.log(`\n${uri}\n`);
+  console.log("⏳ Waiting for the remote signer to connect...");
+
+  try {
+    await signer.waitForSigner(AbortSignal.timeout(timeoutMs));
+  } catch (error) {
+    await signer.close();
+    if (error instanceof Error)
+      throw new Error(`Remote signer did not connect: ${error.message}`);
+    throw error;
+  }
+
+  const remote = signer.remote;
+  if (!remote) throw new Error("Remote signer did not send its pubkey");
+
+  const sessions = new SessionStore(sessionPath);
+  await sessions.load();
+  sessions.set({
+    remote,
+    pubkey: await signer.getPublicKey(),
+    relays,
+    clientKey: bytesToHex(client.key),
+    createdAt: Math.floor(Date.now() / 1000),
+  });
+  await sessions.save();
+  await signer.close();
+
+  return Helpers.createBunkerURI({ remote, relays });
+}
+
+// Get the ncryptsec password from the environment, a file or the terminal
+async function getPassword(options: SignerOptions): Promise<string> {
+  const fromEnv = process.env[PASSWORD_ENV_VAR];
+  if (fromEnv) return fromEnv;
+
+  if (options.passwordFile) {
+    const fromFile = await readFile(options.passwordFile, "utf-8");
+    // Ignore the trailing newline most editors add
+    return fromFile.replace(/\r?\n$/, "");
+  }
+
+  if (process.stdin.isTTY) {
+    return promptPassword("🔑 Password for ncryptsec key: ");
+  }
+
+  throw new Error(
+    `No password for ncryptsec key. Set ${PASSWORD_ENV_VAR}, use --password-file or run in a terminal`,
+  );
+}
+
+// Read a password from the terminal without echoing it
+function promptPassword(question: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const stdin = process.stdin;
+    let password = "";
+
+    const cleanup = () => {
+      stdin.setRawMode(false);
+      stdin.pause();
+      stdin.off("data", onData);
+      process.stdout.write("\n");
+    };
+
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        switch (char) {
+          case "\r":
+          case "\n":
+          case "\u0004": // Ctrl+D
+            cleanup();
+            resolve(password);
+            return;
+          case "\u0003": // Ctrl+C
+            cleanup();
+            reject(new Error("Password prompt cancelled"));
+            return;
+          case "\u007f": // Backspace
+            password = password.slice(0, -1);
+            break;
+          default:
+            password += char;
+        }
+      }
+    };
+
+    process.stdout.write(question);
+    stdin.setRawMode(true);
+    stdin.setEncoding("utf-8");
+    stdin.resume();
+    stdin.on("data", onData);
+  });
+}
@@ -0,0 +1,56 @@
+import { naddrEncode } from "applesauce-core/helpers";
+import type {
+  ArticleLinkResolver,
+  ArticleReference,
+} from "./markdown-converter";
+import type { ArticleRecord } from "./state-store";
+
+/**
+ * Resolve links to articles in the state file to their mirrored events.
+ * When a pubkey is given only that signer's articles are used, otherwise
+ * the most recently published copy of each article wins.
+ */
+export function createArticleLinkResolver(
+  records: ArticleRecord[],
+  pubkey?: string,
+): ArticleLinkResolver {
+  const references = new Map<string, ArticleReference>();
+
+  const newestFirst = [...records].sort(
+    (a, b) => b.lastPublishedAt - a.lastPublishedAt,
+  );
+  for (const record of newestFirst) {
+    if (pubkey && record.pubkey !== pubkey) continue;
+
+    const key = normalizeArticleUrl(record.url);
+    if (!key || references.has(key)) continue;
+
+    const relays = record.relays.slice(0, 2);
+    references.set(key, {
+      url: record.url,
+      naddr: naddrEncode({
+        kind: 30023,
+        pubkey: record.pubkey,
+        identifier: record.articleId,
+        relays,
+      }),
+      coordinate: `30023:${record.pubkey}:${record.articleId}`,
+      relay: relays[0],
+    });
+  }
+
+  return (url) => {
+    const key = normalizeArticleUrl(url);
+    return key ? references.get(key) : undefined;
+  };
+}
+
+// Links differ in protocol, "www.", query strings, fragments and trailing slashes
+function normalizeArticleUrl(url: string): string | undefined {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return hostname.replace(/^www\./, "") + pathname.replace(/\/+$/, "");
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,143 @@
+import { YAML } from "bun";
+import { readFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+
+/** NIP-32 namespace the attack categories are published under */
+export const ATTACK_LABEL_NAMESPACE = "rekt.attack";
+
+// The rules that ship with the mirror, at the repository root
+export const DEFAULT_ATTACK_RULES_PATH = join(
+  import.meta.dir,
+  "..",
+  "attack-rules.yaml",
+);
+
+export interface AttackRule {
+  category: string;
+  keywords: string[];
+  patterns: RegExp[];
+  minMatches: number; // Keywords and patterns that must match (default 1)
+}
+
+/**
+ * Tags articles with attack categories (flash loan, reentrancy, ...) using
+ * keyword and pattern rules from an editable YAML or JSON file.
+ */
+export class AttackClassifier {
+  constructor(private rules: AttackRule[]) {}
+
+  /**
+   * Load the rules from a file:
+   *
+   * ```yaml
+   * categories:
+   *   flash-loan:
+   *     keywords: [flash loan, flashloan]
+   *     patterns: ["flash.?loan(?:ed|s)?"]
+   *     minMatches: 1
+   * ```
+   */
+  static async load(
+    path: string = DEFAULT_ATTACK_RULES_PATH,
+  ): Promise<AttackClassifier> {
+    let parsed: unknown;
+    try {
+      const raw = await readFile(path, "utf-8");
+      parsed = extname(path) === ".json" ? JSON.parse(raw) : YAML.parse(raw);
+    } catch (error) {
+      if (error instanceof Error)
+        throw new Error(
+          `Failed to read attack rules ${path}: ${error.message}`,
+        );
+      throw error;
+    }
+
+    const categories = (parsed as { categories?: unknown } | null)?.categories;
+    if (!isObject(categories) || Object.keys(categories).length === 0) {
+      throw new Error(`Attack rules ${path} have no categories`);
+    }
+
+    return new AttackClassifier(
+      Object.entries(categories).map(([category, value]) =>
+        parseRule(category, value),
+      ),
+    );
+  }
+
+  /** The categories whose rules match the text, in rule file order */
+  classify(text: string): string[] {
+    return this.rules
+      .filter((rule) => {
+        const matches =
+          rule.keywords.filter((keyword) =>
+            new RegExp(`\\b${escapeRegExp(keyword)}\\b`, "i").test(text),
+          ).length +
+          rule.patterns.filter((pattern) => pattern.test(text)).length;
+        return matches >= rule.minMatches;
+      })
+      .map((rule) => rule.category);
+  }
+}
+
+/** NIP-32 `L`/`l` tags for a set of attack categories */
+export function buildAttackLabelTags(categories: string[]): string[][] {
+  if (categories.length === 0) return [];
+  return [
+    ["L", ATTACK_LABEL_NAMESPACE],
+    ...categories.map((category) => ["l", category, ATTACK_LABEL_NAMESPACE]),
+  ];
+}
+
+function parseRule(category: string, value: unknown): AttackRule {
+  if (!isObject(value)) {
+    throw new Error(`Invalid attack rule "${category}": expected an object`);
+  }
+
+  const lists: Record<"keywords" | "patterns", string[]> = {
+    keywords: [],
+    patterns: [],
+  };
+  for (const field of ["keywords", "patterns"] as const) {
+    if (value[field] === undefined) continue;
+    const list = value[field];
+    if (!Array.isArray(list) || list.some((v) => typeof v !== "string")) {
+      throw new Error(
+        `Invalid attack rule "${category}": ${field} must be a list of strings`,
+      );
+    }
+    lists[field] = list;
+  }
+
+  if (lists.keywords.length === 0 && lists.patterns.length === 0) {
+    throw new Error(
+      `Invalid attack rule "${category}": needs keywords or patterns`,
+    );
+  }
+
+  const minMatches = value.minMatches ?? 1;
+  if (typeof minMatches !== "number" || minMatches < 1) {
+    throw new Error(
+      `Invalid attack rule "${category}": minMatches must be a positive number`,
+    );
+  }
+
+  const patterns = lists.patterns.map((pattern) => {
+    try {
+      return new RegExp(pattern, "i");
+    } catch (error) {
+      throw new Error(
+        `Invalid attack rule "${category}": bad pattern ${pattern} (${error instanceof Error ? error.message : error})`,
+      );
+    }
+  });
+
+  return { category, keywords: lists.keywords, patterns, minMatches };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
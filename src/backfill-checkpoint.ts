@@ -0,0 +1,126 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { RektArticle } from "./scraper";
+
+export interface CheckpointArticle {
+  url: string;
+  title: string;
+  publishedAt: string; // ISO date used for ordering
+  summary?: string;
+  tags: string[];
+}
+
+interface CheckpointFile {
+  version: number;
+  createdAt: string;
+  articles: CheckpointArticle[]; // Discovered articles, oldest-first
+  completed: string[]; // URLs of articles that have been handled
+  failed?: Record<string, string>; // Error of each article that failed, by URL
+}
+
+const CHECKPOINT_VERSION = 1;
+
+/** Progress of a backfill, saved after every article so it can be resumed */
+export class BackfillCheckpoint {
+  private state: CheckpointFile | null = null;
+
+  constructor(private path: string) {}
+
+  /** Load an existing checkpoint. Returns false if there is nothing to resume */
+  async load(): Promise<boolean> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+
+    try {
+      const state = JSON.parse(raw) as CheckpointFile;
+      if (state.version !== CHECKPOINT_VERSION) {
+        throw new Error(`Unsupported checkpoint version ${state.version}`);
+      }
+      this.state = state;
+      return true;
+    } catch (error) {
+      if (error instanceof Error)
+        throw new Error(
+          `Failed to read checkpoint ${this.path}: ${error.message}`,
+        );
+      throw error;
+    }
+  }
+
+  /** Start a new backfill with the discovered articles (oldest-first) */
+  start(articles: RektArticle[]): void {
+    this.state = {
+      version: CHECKPOINT_VERSION,
+      createdAt: new Date().toISOString(),
+      articles: articles.map((article) => ({
+        url: article.url,
+        title: article.title,
+        publishedAt: article.publishedAt.toISOString(),
+        summary: article.summary,
+        tags: article.tags,
+      })),
+      completed: [],
+    };
+  }
+
+  get total(): number {
+    return this.state?.articles.length ?? 0;
+  }
+
+  get completedCount(): number {
+    return this.state?.completed.length ?? 0;
+  }
+
+  /** The articles that still need to be mirrored, oldest-first */
+  getRemaining(): RektArticle[] {
+    if (!this.state) return [];
+
+    const completed = new Set(this.state.completed);
+    return this.state.articles
+      .filter((article) => !completed.has(article.url))
+      .map((article) => ({
+        ...article,
+        content: "",
+        publishedAt: new Date(article.publishedAt),
+      }));
+  }
+
+  get failedCount(): number {
+    return Object.keys(this.state?.failed ?? {}).length;
+  }
+
+  markCompleted(url: string): void {
+    if (this.state && !this.state.completed.includes(url)) {
+      this.state.completed.push(url);
+    }
+    delete this.state?.failed?.[url];
+  }
+
+  /** Record why an article failed, it stays remaining so a resume retries it */
+  markFailed(url: string, error: string): void {
+    if (!this.state) return;
+    this.state.failed ??= {};
+    this.state.failed[url] = error;
+  }
+
+  async save(): Promise<void> {
+    if (!this.state) return;
+
+    // Write to a temporary file first so an interrupted run can't corrupt the checkpoint
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(this.state, null, 2) + "\n");
+    await rename(tmpPath, this.path);
+  }
+
+  /** Remove the checkpoint once the backfill has finished */
+  async clear(): Promise<void> {
+    this.state = null;
+    await rm(this.path, { force: true });
+  }
+}
@@ -0,0 +1,367 @@
+import type { ISigner } from "applesauce-signers";
+import { createHash } from "node:crypto";
+import { HttpClient } from "./http-client";
+
+/** A BUD-02 blob descriptor returned by Blossom servers */
+interface BlobDescriptor {
+  url: string;
+  sha256: string;
+  size: number;
+  type?: string;
+  uploaded?: number;
+}
+
+/** An image that has been copied to the Blossom servers */
+export interface MirroredImage {
+  originalUrl: string;
+  url: string; // Blossom URL on the first server that accepted it
+  sha256: string;
+  mimeType: string;
+  size: number;
+  dimensions?: { width: number; height: number };
+}
+
+export interface ImageMirrorResult {
+  markdown: string;
+  image?: string;
+  imetaTags: string[][];
+  images: MirroredImage[];
+}
+
+// Auth events are only needed for the upload itself
+const AUTH_EXPIRATION_SECONDS = 300;
+
+// Give up on a Blossom server that doesn't answer, so one can't stall a run
+const REQUEST_TIMEOUT_MS = 60000;
+
+// Markdown images, whose alt text, destination and title can contain escaped
+// characters: everything before the destination, the destination, the rest
+const IMAGE_PATTERN =
+  /(!\[(?:\\.|[^\\\]])*\]\()((?:\\.|[^\s()\\])+)((?:\s+"(?:\\.|[^"\\])*")?\))/g;
+
+/**
+ * Copies article images to Blossom servers (BUD-01/BUD-02) so mirrored
+ * articles keep their images if the original site goes away.
+ */
+export class BlossomImageMirror {
+  // Images already handled during this run, keyed by original URL
+  private cache = new Map<string, MirroredImage>();
+
+  constructor(
+    private servers: string[],
+    private signer: ISigner,
+    private http: HttpClient = new HttpClient(),
+  ) {}
+
+  /**
+   * Upload every image in the markdown (and the header image) and rewrite
+   * them to point at the Blossom copies. Images in `known` were mirrored
+   * before and aren't downloaded again. Images that fail to mirror keep
+   * their original URL.
+   */
+  async mirrorArticleImages(
+    markdown: string,
+    image?: string,
+    known: MirroredImage[] = [],
+  ): Promise<ImageMirrorResult> {
+    const images: MirroredImage[] = [];
+    for (const url of findImageUrls(markdown, image)) {
+      const mirrored =
+        known.find((i) => i.originalUrl === url) ??
+        (await this.mirrorImage(url));
+      if (mirrored) images.push(mirrored);
+    }
+
+    return applyMirroredImages(markdown, image, images);
+  }
+
+  private async mirrorImage(url: string): Promise<MirroredImage | null> {
+    const cached = this.cache.get(url);
+    if (cached) return cached;
+
+    try {
+      const response = await this.http.fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to download image: ${response.status}`);
+      }
+
+      const data = new Uint8Array(await response.arrayBuffer());
+      const sha256 = createHash("sha256").update(data).digest("hex");
+      const mimeType =
+        response.headers.get("content-type")?.split(";")[0]?.trim() ||
+        sniffMimeType(data) ||
+        "application/octet-stream";
+
+      let uploaded: BlobDescriptor | null = null;
+      for (const server of this.servers) {
+        try {
+          const blob = await this.uploadBlob(server, data, sha256, mimeType);
+          uploaded ??= blob;
+        } catch (error) {
+          if (error instanceof Error)
+            console.warn(`⚠️  ${server}: ${error.message}`);
+        }
+      }
+
+      if (!uploaded) {
+        throw new Error("No Blossom server accepted the image");
+      }
+
+      const mirrored: MirroredImage = {
+        originalUrl: url,
+        url: uploaded.url,
+        sha256,
+        mimeType,
+        size: data.byteLength,
+        dimensions: getImageDimensions(data),
+      };
+
+      console.log(`🌸 Mirrored image ${url} → ${mirrored.url}`);
+      this.cache.set(url, mirrored);
+      return mirrored;
+    } catch (error) {
+      if (error instanceof Error)
+        console.warn(`⚠️  Failed to mirror image ${url}: ${error.message}`);
+      return null;
+    }
+  }
+
+  private async uploadBlob(
+    server: string,
+    data: Uint8Array,
+    sha256: string,
+    mimeType: string,
+  ): Promise<BlobDescriptor> {
+    const base = server.replace(/\/$/, "");
+
+    // BUD-01: skip the upload if the server already has the blob
+    const head = await fetch(`${base}/${sha256}`, {
+      method: "HEAD",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (head.ok) {
+      return {
+        url: `${base}/${sha256}${extensionForMimeType(mimeType)}`,
+        sha256,
+        size: data.byteLength,
+        type: mimeType,
+      };
+    }
+
+    // BUD-02: upload with a signed kind 24242 authorization event
+    const now = Math.floor(Date.now() / 1000);
+    const auth = await this.signer.signEvent({
+      kind: 24242,
+      created_at: now,
+      content: `Upload ${sha256}`,
+      tags: [
+        ["t", "upload"],
+        ["x", sha256],
+        ["expiration", String(now + AUTH_EXPIRATION_SECONDS)],
+      ],
+    });
+
+    const response = await fetch(`${base}/upload`, {
+      method: "PUT",
+      headers: {
+        Authorization: `Nostr ${btoa(JSON.stringify(auth))}`,
+        "Content-Type": mimeType,
+      },
+      body: data,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const reason = response.headers.get("x-reason");
+      throw new Error(
+        `Upload failed: ${response.status}${reason ? ` (${reason})` : ""}`,
+      );
+    }
+
+    const blob = (await response.json()) as BlobDescriptor;
+    if (blob.sha256 !== sha256) {
+      throw new Error(`Server returned a different hash: ${blob.sha256}`);
+    }
+
+    return blob;
+  }
+}
+
+/**
+ * Point the images of an article at Blossom copies that already exist,
+ * without any network requests. Images without a copy keep their URL.
+ */
+export function applyMirroredImages(
+  markdown: string,
+  image: string | undefined,
+  mirroredImages: MirroredImage[],
+): ImageMirrorResult {
+  const urls = findImageUrls(markdown, image);
+  const images = mirroredImages.filter((i) => urls.includes(i.originalUrl));
+
+  // Only whole destinations, a URL can be the start of another one
+  const mirroredUrls = new Map(images.map((i) => [i.originalUrl, i.url]));
+  const rewritten = markdown.replace(
+    IMAGE_PATTERN,
+    (match, start: string, url: string, end: string) => {
+      const mirrored = mirroredUrls.get(url);
+      return mirrored ? `${start}${mirrored}${end}` : match;
+    },
+  );
+
+  const headerImage = images.find((i) => i.originalUrl === image);
+
+  return {
+    markdown: rewritten,
+    image: headerImage?.url ?? image,
+    imetaTags: images.map(buildImetaTag),
+    images,
+  };
+}
+
+/** Read the mirrored images back from the imeta tags of a published event */
+export function getMirroredImages(tags: string[][]): MirroredImage[] {
+  const images: MirroredImage[] = [];
+  for (const tag of tags) {
+    if (tag[0] !== "imeta") continue;
+
+    const fields = new Map(
+      tag.slice(1).map((field) => {
+        const space = field.indexOf(" ");
+        return [field.slice(0, space), field.slice(space + 1)] as const;
+      }),
+    );
+    const [width, height] = (fields.get("dim") ?? "").split("x").map(Number);
+
+    const url = fields.get("url");
+    const originalUrl = fields.get("fallback");
+    const sha256 = fields.get("x");
+    if (!url || !originalUrl || !sha256) continue;
+
+    images.push({
+      originalUrl,
+      url,
+      sha256,
+      mimeType: fields.get("m") ?? "application/octet-stream",
+      size: Number(fields.get("size")) || 0,
+      dimensions: width && height ? { width, height } : undefined,
+    });
+  }
+  return images;
+}
+
+/** The images in the markdown, plus the header image */
+function findImageUrls(markdown: string, image?: string): string[] {
+  const urls = new Set<string>();
+  for (const match of markdown.matchAll(IMAGE_PATTERN)) {
+    if (match[2]) urls.add(match[2]);
+  }
+  if (image) urls.add(image);
+  return [...urls];
+}
+
+/** Build a NIP-92 imeta tag for a mirrored image */
+function buildImetaTag(image: MirroredImage): string[] {
+  const tag = [
+    "imeta",
+    `url ${image.url}`,
+    `m ${image.mimeType}`,
+    `x ${image.sha256}`,
+    `size ${image.size}`,
+  ];
+  if (image.dimensions) {
+    tag.push(`dim ${image.dimensions.width}x${image.dimensions.height}`);
+  }
+  tag.push(`fallback ${image.originalUrl}`);
+  return tag;
+}
+
+function extensionForMimeType(mimeType: string): string {
+  const extensions: Record<string, string> = {
+    "image/png": ".png",
+    "image/jpeg": ".jpg",
+    "image/gif": ".gif",
+    "image/webp": ".webp",
+    "image/svg+xml": ".svg",
+  };
+  return extensions[mimeType] ?? "";
+}
+
+function sniffMimeType(data: Uint8Array): string | undefined {
+  if (data[0] === 0x89 && data[1] === 0x50) return "image/png";
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (data[0] === 0x47 && data[1] === 0x49) return "image/gif";
+  if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 4) === "WEBP")
+    return "image/webp";
+  return undefined;
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+/** Read the width and height from a PNG, GIF, JPEG or WebP header */
+function getImageDimensions(
+  data: Uint8Array,
+): { width: number; height: number } | undefined {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.byteLength < 32) return undefined;
+
+  switch (sniffMimeType(data)) {
+    case "image/png":
+      return { width: view.getUint32(16), height: view.getUint32(20) };
+    case "image/gif":
+      return {
+        width: view.getUint16(6, true),
+        height: view.getUint16(8, true),
+      };
+    case "image/webp": {
+      const chunk = ascii(data, 12, 4);
+      if (chunk === "VP8 ") {
+        return {
+          width: view.getUint16(26, true) & 0x3fff,
+          height: view.getUint16(28, true) & 0x3fff,
+        };
+      }
+      if (chunk === "VP8L") {
+        const bits = view.getUint32(21, true);
+        return {
+          width: (bits & 0x3fff) + 1,
+          height: ((bits >> 14) & 0x3fff) + 1,
+        };
+      }
+      if (chunk === "VP8X") {
+        return {
+          width: (view.getUint32(24, true) & 0xffffff) + 1,
+          height: (view.getUint32(27, true) & 0xffffff) + 1,
+        };
+      }
+      return undefined;
+    }
+    case "image/jpeg": {
+      // Walk the segments until a start-of-frame marker
+      let offset = 2;
+      while (offset + 9 < data.byteLength) {
+        if (data[offset] !== 0xff) return undefined;
+        const marker = data[offset + 1]!;
+        const length = view.getUint16(offset + 2);
+        const isStartOfFrame =
+          marker >= 0xc0 &&
+          marker <= 0xcf &&
+          marker !== 0xc4 &&
+          marker !== 0xc8 &&
+          marker !== 0xcc;
+        if (isStartOfFrame) {
+          return {
+            width: view.getUint16(offset + 7),
+            height: view.getUint16(offset + 5),
+          };
+        }
+        offset += 2 + length;
+      }
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
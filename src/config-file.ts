@@ -0,0 +1,164 @@
+import { YAML } from "bun";
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+
+/** One mirror setup from the config file. Unset fields fall back to the CLI flags */
+export interface MirrorProfile {
+  name: string;
+  source?: string; // "rekt" or an RSS/Atom feed URL
+  signer?: string; // Signer string, or an env:NAME / file:path reference to one
+  passwordFile?: string;
+  relays?: string[];
+  limit?: number;
+  delay?: number;
+  tags?: string[]; // Hashtags added to every article
+  subjects?: string[]; // Replace the default subject tags
+  blossom?: string[];
+  announce?: boolean;
+  state?: string; // State file, by default one per profile next to --state
+}
+
+const STRING_FIELDS = ["source", "signer", "passwordFile", "state"] as const;
+const LIST_FIELDS = ["relays", "tags", "subjects", "blossom"] as const;
+const NUMBER_FIELDS = ["limit", "delay"] as const;
+
+/**
+ * Load the profiles from a YAML or JSON config file:
+ *
+ * ```yaml
+ * profiles:
+ *   rekt:
+ *     source: rekt
+ *     signer: env:REKT_NSEC
+ *     relays: [wss://nos.lol]
+ *     subjects: [DeFi Security, Blockchain]
+ * ```
+ */
+export async function loadConfigFile(path: string): Promise<MirrorProfile[]> {
+  let parsed: unknown;
+  try {
+    const raw = await readFile(path, "utf-8");
+    parsed = extname(path) === ".json" ? JSON.parse(raw) : YAML.parse(raw);
+  } catch (error) {
+    if (error instanceof Error)
+      throw new Error(`Failed to read config file ${path}: ${error.message}`);
+    throw error;
+  }
+
+  const profiles = (parsed as { profiles?: unknown } | null)?.profiles;
+  if (!isObject(profiles) || Object.keys(profiles).length === 0) {
+    throw new Error(`Config file ${path} has no profiles`);
+  }
+
+  return Object.entries(profiles).map(([name, value]) =>
+    parseProfile(name, value),
+  );
+}
+
+/** Pick the profiles to run. All profiles are run when no names are given */
+export function selectProfiles(
+  profiles: MirrorProfile[],
+  names?: string[],
+): MirrorProfile[] {
+  if (!names || names.length === 0) return profiles;
+
+  return names.map((name) => {
+    const profile = profiles.find((p) => p.name === name);
+    if (!profile) {
+      const available = profiles.map((p) => p.name).join(", ");
+      throw new Error(`Unknown profile "${name}" (available: ${available})`);
+    }
+    return profile;
+  });
+}
+
+/**
+ * The state file of a profile: its `state` field, or the `--state` path with
+ * the profile name added (`mirror-state.json` → `mirror-state.rekt.json`).
+ * Profiles don't share a file, as the daemon runs them at the same time.
+ */
+export function getProfileStatePath(
+  profile: MirrorProfile,
+  statePath: string,
+): string {
+  if (profile.state) return profile.state;
+
+  const extension = extname(statePath);
+  const base = statePath.slice(0, statePath.length - extension.length);
+  const name = profile.name.replace(/[^\w.-]+/g, "_");
+  return `${base}.${name}${extension || ".json"}`;
+}
+
+/**
+ * Resolve a profile's signer so keys don't have to live in the config file.
+ * `env:NAME` reads an environment variable and `file:path` reads a file,
+ * anything else is used as-is.
+ */
+export async function resolveSignerReference(
+  reference: string,
+): Promise<string> {
+  if (reference.startsWith("env:")) {
+    const name = reference.slice("env:".length);
+    const value = process.env[name];
+    if (!value) throw new Error(`Environment variable ${name} is not set`);
+    return value.trim();
+  }
+
+  if (reference.startsWith("file:")) {
+    const path = reference.slice("file:".length);
+    return (await readFile(path, "utf-8")).trim();
+  }
+
+  return reference;
+}
+
+function parseProfile(name: string, value: unknown): MirrorProfile {
+  if (!isObject(value)) {
+    throw new Error(`Invalid profile "${name}": expected an object`);
+  }
+
+  const profile: MirrorProfile = { name };
+
+  for (const field of STRING_FIELDS) {
+    if (value[field] === undefined) continue;
+    if (typeof value[field] !== "string") {
+      throw new Error(`Invalid profile "${name}": ${field} must be a string`);
+    }
+    profile[field] = value[field];
+  }
+
+  for (const field of LIST_FIELDS) {
+    if (value[field] === undefined) continue;
+    const list = value[field];
+    if (!Array.isArray(list) || list.some((v) => typeof v !== "string")) {
+      throw new Error(
+        `Invalid profile "${name}": ${field} must be a list of strings`,
+      );
+    }
+    profile[field] = list;
+  }
+
+  for (const field of NUMBER_FIELDS) {
+    if (value[field] === undefined) continue;
+    const number = value[field];
+    if (typeof number !== "number" || number < 0) {
+      throw new Error(
+        `Invalid profile "${name}": ${field} must be a non-negative number`,
+      );
+    }
+    profile[field] = number;
+  }
+
+  if (value.announce !== undefined) {
+    if (typeof value.announce !== "boolean") {
+      throw new Error(`Invalid profile "${name}": announce must be a boolean`);
+    }
+    profile.announce = value.announce;
+  }
+
+  return profile;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
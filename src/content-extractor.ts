@@ -0,0 +1,225 @@
+import * as cheerio from "cheerio";
+
+type Node = ReturnType<cheerio.CheerioAPI>[number];
+
+export interface ExtractionResult {
+  html: string;
+  confidence: number; // 0-1, how clearly the body stood out from the rest of the page
+  textLength: number;
+  paragraphs: number;
+  linkDensity: number; // Share of the text that is link text
+}
+
+interface Candidate {
+  node: Node;
+  score: number;
+}
+
+// Below this an article is skipped, below the review level it is flagged
+export const DEFAULT_MIN_CONFIDENCE = 0.3;
+export const DEFAULT_REVIEW_CONFIDENCE = 0.5;
+
+// Elements that never hold the article body
+const REMOVE_SELECTORS =
+  "script, style, noscript, nav, header, footer, aside, form, button, input, select, textarea";
+
+// Class/id hints for boilerplate and for the article body
+const NEGATIVE_PATTERN =
+  /comment|sidebar|newsletter|subscri|related|share|social|footer|menu|nav|banner|promo|popup|cookie|widget|sponsor|advert|\bads?\b/i;
+const POSITIVE_PATTERN = /article|body|content|entry|main|post|story|text/i;
+
+// Elements whose text counts as a paragraph of the article
+const PARAGRAPH_SELECTORS = "p, pre, blockquote, td, li";
+
+// Paragraphs shorter than this are captions, bylines or buttons
+const MIN_PARAGRAPH_LENGTH = 25;
+
+/**
+ * Find the article body in a page the way Readability does: score each
+ * paragraph by its length and punctuation, give the score to its parent and
+ * grandparent, penalise link-heavy nodes and pick the highest scoring one
+ * together with the siblings that look like part of it.
+ */
+export function extractMainContent(html: string): ExtractionResult | null {
+  const $ = cheerio.load(html);
+  $(REMOVE_SELECTORS).remove();
+
+  // Drop boilerplate blocks unless they also look like the body
+  $("[class], [id]").each((_, element) => {
+    const hints = `${$(element).attr("class") ?? ""} ${$(element).attr("id") ?? ""}`;
+    if (
+      NEGATIVE_PATTERN.test(hints) &&
+      !POSITIVE_PATTERN.test(hints) &&
+      !$(element).is("body, html")
+    ) {
+      $(element).remove();
+    }
+  });
+
+  const scores = new Map<Node, number>();
+  const addScore = (node: Node | undefined, score: number) => {
+    if (!node || $(node).is("body, html")) return;
+    if (!scores.has(node)) scores.set(node, getBaseScore($, node));
+    scores.set(node, scores.get(node)! + score);
+  };
+
+  $(PARAGRAPH_SELECTORS).each((_, element) => {
+    const text = $(element).text().trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+
+    // One point per paragraph, one per comma and one per 100 characters (up to 3)
+    const commas = text.match(/,/g)?.length ?? 0;
+    const score = 1 + commas + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = $(element).parent()[0];
+    const grandparent = $(element).parent().parent()[0];
+    addScore(parent, score);
+    addScore(grandparent, score / 2);
+  });
+
+  const candidates: Candidate[] = [...scores]
+    .map(([node, score]) => ({
+      node,
+      score: score * (1 - getLinkDensity($, node)),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const top = candidates[0];
+  if (!top || top.score <= 0) return null;
+
+  const body = findBody($, top, candidates);
+  const $body = $(body.node);
+  const textLength = $body.text().replace(/\s+/g, " ").trim().length;
+  const paragraphs = $body
+    .find(PARAGRAPH_SELECTORS)
+    .filter((_, p) => $(p).text().trim().length >= MIN_PARAGRAPH_LENGTH).length;
+  const linkDensity = getLinkDensity($, body.node);
+
+  return {
+    html: collectSiblings($, body, scores),
+    confidence: getConfidence(body, candidates, {
+      textLength,
+      paragraphs,
+      linkDensity,
+    }),
+    textLength,
+    paragraphs,
+    linkDensity,
+  };
+}
+
+/** Starting score from the element type and its class/id hints */
+function getBaseScore($: cheerio.CheerioAPI, node: Node): number {
+  const $node = $(node);
+  let score = 0;
+
+  if ($node.is("article, main")) score += 10;
+  else if ($node.is("div, section")) score += 5;
+  else if ($node.is("pre, td, blockquote")) score += 3;
+  else if ($node.is("ol, ul, dl, dd, dt, li")) score -= 3;
+  else if ($node.is("h1, h2, h3, h4, h5, h6, th")) score -= 5;
+
+  const hints = `${$node.attr("class") ?? ""} ${$node.attr("id") ?? ""}`;
+  if (POSITIVE_PATTERN.test(hints)) score += 25;
+  if (NEGATIVE_PATTERN.test(hints)) score -= 25;
+
+  return score;
+}
+
+function getLinkDensity($: cheerio.CheerioAPI, node: Node): number {
+  const textLength = $(node).text().trim().length;
+  if (textLength === 0) return 0;
+
+  const linkLength = $(node)
+    .find("a")
+    .toArray()
+    .reduce((sum, link) => sum + $(link).text().trim().length, 0);
+  return Math.min(linkLength / textLength, 1);
+}
+
+/**
+ * When the body is split over sections, several of the best candidates
+ * share one ancestor that holds the whole article.
+ */
+function findBody(
+  $: cheerio.CheerioAPI,
+  top: Candidate,
+  candidates: Candidate[],
+): Candidate {
+  const contenders = candidates
+    .slice(1, 5)
+    .filter(({ score }) => score >= top.score * 0.75);
+  if (contenders.length < 2) return top;
+
+  for (const ancestor of $(top.node).parents().toArray()) {
+    if ($(ancestor).is("body, html")) break;
+
+    const contains = contenders.filter(({ node }) =>
+      cheerio.contains(ancestor, node),
+    );
+    if (contains.length >= 2) {
+      const candidate = candidates.find(({ node }) => node === ancestor);
+      return { node: ancestor, score: candidate?.score ?? top.score };
+    }
+  }
+  return top;
+}
+
+/** The body plus neighbouring blocks that belong to the article */
+function collectSiblings(
+  $: cheerio.CheerioAPI,
+  body: Candidate,
+  scores: Map<Node, number>,
+): string {
+  const threshold = Math.max(10, body.score * 0.2);
+
+  return $(body.node)
+    .parent()
+    .children()
+    .toArray()
+    .filter((sibling) => {
+      if (sibling === body.node) return true;
+
+      const score = scores.get(sibling);
+      if (score !== undefined && score >= threshold) return true;
+
+      // Loose paragraphs next to the body are usually part of it
+      const text = $(sibling).text().trim();
+      return (
+        $(sibling).is("p") &&
+        text.length > 80 &&
+        getLinkDensity($, sibling) < 0.25
+      );
+    })
+    .map((sibling) =>
+      sibling === body.node ? ($(sibling).html() ?? "") : $.html(sibling),
+    )
+    .join("\n");
+}
+
+/**
+ * Combine how long and paragraph-rich the body is, how few links it has and
+ * how far it stands above the next candidate outside of it.
+ */
+function getConfidence(
+  body: Candidate,
+  candidates: Candidate[],
+  stats: { textLength: number; paragraphs: number; linkDensity: number },
+): number {
+  const runnerUp = candidates.find(
+    ({ node }) =>
+      node !== body.node &&
+      !cheerio.contains(body.node, node) &&
+      !cheerio.contains(node, body.node),
+  );
+  const dominance = runnerUp
+    ? body.score / (body.score + Math.max(runnerUp.score, 0))
+    : 1;
+
+  const confidence =
+    0.3 * Math.min(stats.textLength / 2000, 1) +
+    0.2 * Math.min(stats.paragraphs / 5, 1) +
+    0.2 * (1 - stats.linkDensity) +
+    0.3 * dominance;
+  return Math.round(confidence * 100) / 100;
+}
@@ -0,0 +1,71 @@
+import type { EventTemplate, NostrEvent } from "applesauce-core/helpers";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { ArticleAction, RelayPublishResult } from "./nip23-publisher";
+
+/** One article of a bundle, from `prepare` through `sign` and `broadcast` */
+export interface BundleEntry {
+  url: string; // Source article URL
+  title: string;
+  articleId: string; // `d` tag of the event
+  action: Exclude<ArticleAction, "unchanged">;
+  pubkey?: string; // The key the bundle was prepared for, if known
+  event: EventTemplate | NostrEvent; // Unsigned until `sign`
+  relays?: RelayPublishResult[]; // Latest broadcast result for each relay
+}
+
+/**
+ * A JSONL file of NIP-23 events, one article per line, so the scraping,
+ * signing and broadcasting steps can run on different machines
+ */
+export class EventBundle {
+  entries: BundleEntry[] = [];
+
+  constructor(private path: string) {}
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error) {
+      if (error instanceof Error)
+        throw new Error(`Failed to read bundle ${this.path}: ${error.message}`);
+      throw error;
+    }
+
+    this.entries = raw
+      .split("\n")
+      .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+      .filter(({ line }) => line)
+      .map(({ line, number }) => {
+        try {
+          const entry = JSON.parse(line) as BundleEntry;
+          if (entry.event?.kind !== 30023) {
+            throw new Error("not a kind 30023 event");
+          }
+          return entry;
+        } catch (error) {
+          throw new Error(
+            `Invalid bundle entry on line ${number} of ${this.path}: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      });
+  }
+
+  async save(path = this.path): Promise<void> {
+    const lines = this.entries.map((entry) => JSON.stringify(entry) + "\n");
+
+    // Write to a temporary file first so an interrupted step can't corrupt the bundle
+    await mkdir(dirname(path), { recursive: true });
+    const tmpPath = `${path}.tmp`;
+    await writeFile(tmpPath, lines.join(""));
+    await rename(tmpPath, path);
+  }
+}
+
+/** Whether an entry's event has been signed (see verifyEvent for validity) */
+export function isSignedEvent(
+  event: EventTemplate | NostrEvent,
+): event is NostrEvent {
+  return "sig" in event && "id" in event && "pubkey" in event;
+}
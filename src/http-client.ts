@@ -0,0 +1,331 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  isTextContentType,
+  recordResponse,
+  replayResponse,
+} from "./http-recorder";
+import { sleep } from "./shutdown";
+
+export interface HttpClientOptions {
+  userAgent?: string;
+  concurrency?: number; // Requests in flight at once (default 4)
+  timeoutMs?: number; // Per-request timeout (default 30000)
+  maxRetries?: number; // Retries for 429/5xx responses and network errors (default 3)
+  retryDelay?: number; // Base delay before the first retry in ms, doubled each retry (default 1000)
+  respectRobotsTxt?: boolean; // Default true
+  cacheDir?: string; // Keep ETag/Last-Modified validators between runs
+  recordDir?: string; // Save every response for --replay
+  replayDir?: string; // Serve saved responses instead of using the network
+}
+
+interface CachedResponse {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentType?: string;
+  body: string;
+}
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number; // Seconds between requests
+}
+
+const DEFAULT_USER_AGENT = "rekt-nostr-mirror/1.0.0";
+
+// Responses worth retrying, everything else is returned as-is
+const RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+
+// Never wait longer than this for a Retry-After header
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * A polite fetch for scraping: limits concurrent requests, times out and
+ * retries failed requests, follows robots.txt and uses conditional GETs so
+ * unchanged pages aren't downloaded again.
+ */
+export class HttpClient {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private robots = new Map<string, Promise<RobotsRules>>();
+  private cache = new Map<string, CachedResponse>();
+  private nextRequestAt = new Map<string, number>(); // Crawl-delay per origin
+
+  constructor(private options: HttpClientOptions = {}) {}
+
+  private get userAgent(): string {
+    return this.options.userAgent ?? DEFAULT_USER_AGENT;
+  }
+
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const method = (init.method ?? "GET").toUpperCase();
+    if (this.options.replayDir) {
+      return replayResponse(this.options.replayDir, method, url);
+    }
+
+    const rules =
+      this.options.respectRobotsTxt === false
+        ? null
+        : await this.getRobotsRules(url);
+    if (rules && !isAllowed(rules, url)) {
+      throw new Error(`Blocked by robots.txt: ${url}`);
+    }
+
+    await this.acquire();
+    try {
+      if (rules?.crawlDelay) await this.waitForCrawlDelay(url, rules);
+      const response = await this.fetchWithRetries(url, init);
+      return this.options.recordDir
+        ? await recordResponse(this.options.recordDir, method, url, response)
+        : response;
+    } finally {
+      this.release();
+    }
+  }
+
+  private async fetchWithRetries(
+    url: string,
+    init: RequestInit,
+  ): Promise<Response> {
+    const maxRetries = this.options.maxRetries ?? 3;
+    const retryDelay = this.options.retryDelay ?? 1000;
+
+    for (let attempt = 0; ; attempt++) {
+      let delay = retryDelay * 2 ** attempt;
+
+      try {
+        const response = await this.fetchOnce(url, init);
+        if (!RETRY_STATUSES.includes(response.status) || attempt >= maxRetries)
+          return response;
+
+        delay = getRetryAfter(response) ?? delay;
+        console.warn(
+          `⚠️  ${url} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt + 2}/${maxRetries + 1})`,
+        );
+      } catch (error) {
+        if (attempt >= maxRetries) throw error;
+        if (error instanceof Error)
+          console.warn(
+            `⚠️  ${url}: ${error.message}, retrying in ${delay}ms (attempt ${attempt + 2}/${maxRetries + 1})`,
+          );
+      }
+
+      await sleep(delay);
+    }
+  }
+
+  private async fetchOnce(url: string, init: RequestInit): Promise<Response> {
+    const method = (init.method ?? "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+    headers.set("User-Agent", this.userAgent);
+
+    // Ask the server to skip the body if the page hasn't changed
+    const cached = method === "GET" ? await this.getCached(url) : undefined;
+    if (cached?.etag) headers.set("If-None-Match", cached.etag);
+    if (cached?.lastModified)
+      headers.set("If-Modified-Since", cached.lastModified);
+
+    const timeout = AbortSignal.timeout(this.options.timeoutMs ?? 30000);
+    const response = await fetch(url, {
+      ...init,
+      headers,
+      signal: init.signal ? AbortSignal.any([init.signal, timeout]) : timeout,
+    });
+
+    if (response.status === 304 && cached) {
+      return new Response(cached.body, {
+        status: 200,
+        headers: cached.contentType
+          ? { "Content-Type": cached.contentType }
+          : {},
+      });
+    }
+
+    const etag = response.headers.get("etag") ?? undefined;
+    const lastModified = response.headers.get("last-modified") ?? undefined;
+    if (
+      method !== "GET" ||
+      !response.ok ||
+      (!etag && !lastModified) ||
+      !isTextContentType(response.headers.get("content-type"))
+    ) {
+      return response;
+    }
+
+    // Keep the body so a later 304 can be answered from the cache
+    const body = await response.text();
+    await this.setCached({
+      url,
+      etag,
+      lastModified,
+      contentType: response.headers.get("content-type") ?? undefined,
+      body,
+    });
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  private async getCached(url: string): Promise<CachedResponse | undefined> {
+    const cached = this.cache.get(url);
+    if (cached || !this.options.cacheDir) return cached;
+
+    try {
+      const raw = await readFile(this.getCachePath(url), "utf-8");
+      const entry = JSON.parse(raw) as CachedResponse;
+      this.cache.set(url, entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async setCached(entry: CachedResponse): Promise<void> {
+    this.cache.set(entry.url, entry);
+    if (!this.options.cacheDir) return;
+
+    await mkdir(this.options.cacheDir, { recursive: true });
+    await writeFile(this.getCachePath(entry.url), JSON.stringify(entry));
+  }
+
+  private getCachePath(url: string): string {
+    const key = createHash("sha256").update(url).digest("hex");
+    return join(this.options.cacheDir!, `${key}.json`);
+  }
+
+  /** Fetch and parse robots.txt once per origin */
+  private getRobotsRules(url: string): Promise<RobotsRules> {
+    const origin = new URL(url).origin;
+    let rules = this.robots.get(origin);
+    if (!rules) {
+      rules = this.fetchWithRetries(`${origin}/robots.txt`, {})
+        .then(async (response) =>
+          // A missing robots.txt allows everything
+          response.ok
+            ? parseRobotsTxt(await response.text(), this.userAgent)
+            : { allow: [], disallow: [] },
+        )
+        .catch((error) => {
+          if (error instanceof Error)
+            console.warn(
+              `⚠️  Failed to fetch ${origin}/robots.txt: ${error.message}`,
+            );
+          return { allow: [], disallow: [] };
+        });
+      this.robots.set(origin, rules);
+    }
+    return rules;
+  }
+
+  private async waitForCrawlDelay(
+    url: string,
+    rules: RobotsRules,
+  ): Promise<void> {
+    const origin = new URL(url).origin;
+    const now = Date.now();
+    const start = Math.max(now, this.nextRequestAt.get(origin) ?? 0);
+
+    // Reserve the slot before waiting so parallel requests queue up behind it
+    this.nextRequestAt.set(origin, start + (rules.crawlDelay ?? 0) * 1000);
+    if (start > now) await sleep(start - now);
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < (this.options.concurrency ?? 4)) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over directly by release()
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
+
+/** Get the delay from a Retry-After header (seconds or an HTTP date) */
+function getRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get("retry-after");
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  const delay = Number.isNaN(seconds)
+    ? new Date(header).getTime() - Date.now()
+    : seconds * 1000;
+  if (Number.isNaN(delay)) return undefined;
+
+  return Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS);
+}
+
+/** Parse the rules that apply to our user agent, falling back to `*` */
+function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split("/")[0]!.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRules }[] = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group of rules
+      if (!current || inRules) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+        inRules = false;
+      }
+      current.agents.push(value.toLowerCase());
+    } else if (current) {
+      inRules = true;
+      if (field === "allow" && value) current.rules.allow.push(value);
+      if (field === "disallow" && value) current.rules.disallow.push(value);
+      if (field === "crawl-delay" && !Number.isNaN(Number(value)))
+        current.rules.crawlDelay = Number(value);
+    }
+  }
+
+  const group =
+    groups.find((g) =>
+      g.agents.some((agent) => agent && agent !== "*" && token.includes(agent)),
+    ) ?? groups.find((g) => g.agents.includes("*"));
+  return group?.rules ?? { allow: [], disallow: [] };
+}
+
+/** The longest matching rule wins, with Allow winning ties */
+function isAllowed(rules: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+
+  const longest = (patterns: string[]) =>
+    Math.max(
+      -1,
+      ...patterns
+        .filter((pattern) => matchesRobotsPattern(pattern, path))
+        .map((pattern) => pattern.length),
+    );
+
+  return longest(rules.allow) >= longest(rules.disallow);
+}
+
+function matchesRobotsPattern(pattern: string, path: string): boolean {
+  // `*` matches any characters and a trailing `$` anchors the end
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
@@ -0,0 +1,112 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** An HTTP response saved by --record */
+interface RecordedResponse {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  encoding?: "base64"; // Set for binary bodies such as images
+  recordedAt: string;
+}
+
+/** Save a response to the record directory and return an unread copy of it */
+export async function recordResponse(
+  dir: string,
+  method: string,
+  url: string,
+  response: Response,
+): Promise<Response> {
+  const data = new Uint8Array(await response.arrayBuffer());
+  const binary = !isTextContentType(response.headers.get("content-type"));
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    // The body is saved decoded, so its original encoding and length don't apply
+    if (key !== "content-encoding" && key !== "content-length")
+      headers[key] = value;
+  });
+
+  const recorded: RecordedResponse = {
+    method,
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: binary
+      ? Buffer.from(data).toString("base64")
+      : new TextDecoder().decode(data),
+    ...(binary && { encoding: "base64" as const }),
+    recordedAt: new Date().toISOString(),
+  };
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(
+    join(dir, getRecordingName(method, url)),
+    JSON.stringify(recorded, null, 2) + "\n",
+  );
+
+  return new Response(data, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/** Load a response saved by --record, without touching the network */
+export async function replayResponse(
+  dir: string,
+  method: string,
+  url: string,
+): Promise<Response> {
+  let recorded: RecordedResponse;
+  try {
+    const raw = await readFile(
+      join(dir, getRecordingName(method, url)),
+      "utf-8",
+    );
+    recorded = JSON.parse(raw) as RecordedResponse;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT")
+      throw new Error(`No recorded response for ${method} ${url} in ${dir}`);
+    throw error;
+  }
+
+  const body =
+    recorded.encoding === "base64"
+      ? Buffer.from(recorded.body, "base64")
+      : recorded.body;
+  return new Response(body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
+
+/** Whether a body can be kept as a string without losing bytes */
+export function isTextContentType(contentType: string | null): boolean {
+  const type = contentType?.split(";")[0]?.trim().toLowerCase() ?? "";
+  return (
+    type === "" ||
+    type.startsWith("text/") ||
+    /[/+](json|xml)$/.test(type) ||
+    type === "application/javascript"
+  );
+}
+
+// Readable file names for fixtures, with a hash so they can't collide
+function getRecordingName(method: string, url: string): string {
+  const { host, pathname, search } = new URL(url);
+  const slug = `${host}${pathname}${search}`
+    .replace(/[^a-zA-Z0-9.-]+/g, "_")
+    .replace(/_+$/, "")
+    .slice(0, 80);
+  const hash = createHash("sha256")
+    .update(`${method} ${url}`)
+    .digest("hex")
+    .slice(0, 8);
+  return `${method.toLowerCase()}_${slug}_${hash}.json`;
+}
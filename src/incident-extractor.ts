@@ -0,0 +1,294 @@
+/** Structured facts about an exploit, pulled from a post-mortem's text */
+export interface IncidentMetadata {
+  lossUsd?: number;
+  chains: string[]; // Lowercase chain names, e.g. "ethereum", "bsc"
+  addresses: OnchainReference[];
+  transactions: OnchainReference[];
+  date?: string; // YYYY-MM-DD
+}
+
+export interface OnchainReference {
+  value: string; // 0x address or transaction hash
+  explorer?: string; // Block explorer link, when the chain is known
+}
+
+interface Chain {
+  name: string;
+  pattern: RegExp; // How the chain is mentioned in prose
+  explorer?: string; // Etherscan-style explorer for EVM chains
+}
+
+const CHAINS: Chain[] = [
+  {
+    name: "ethereum",
+    pattern: /\bEthereum\b|\bETH mainnet\b/,
+    explorer: "https://etherscan.io",
+  },
+  {
+    name: "bsc",
+    pattern: /\bBNB (?:Smart )?Chain\b|\bBinance Smart Chain\b|\bBSC\b/,
+    explorer: "https://bscscan.com",
+  },
+  {
+    name: "polygon",
+    pattern: /\bPolygon\b/,
+    explorer: "https://polygonscan.com",
+  },
+  {
+    name: "arbitrum",
+    pattern: /\bArbitrum\b/,
+    explorer: "https://arbiscan.io",
+  },
+  {
+    name: "optimism",
+    pattern: /\bOptimism\b/,
+    explorer: "https://optimistic.etherscan.io",
+  },
+  {
+    name: "avalanche",
+    pattern: /\bAvalanche\b/,
+    explorer: "https://snowtrace.io",
+  },
+  { name: "fantom", pattern: /\bFantom\b/, explorer: "https://ftmscan.com" },
+  // "base" and "blast" are common words, so only match them as places
+  {
+    name: "base",
+    pattern: /\b(?:on|to|from) Base\b|\bBase (?:chain|network|mainnet)\b/,
+    explorer: "https://basescan.org",
+  },
+  {
+    name: "blast",
+    pattern: /\b(?:on|to|from) Blast\b|\bBlast L2\b/,
+    explorer: "https://blastscan.io",
+  },
+  {
+    name: "gnosis",
+    pattern: /\bGnosis Chain\b/,
+    explorer: "https://gnosisscan.io",
+  },
+  { name: "linea", pattern: /\bLinea\b/, explorer: "https://lineascan.build" },
+  {
+    name: "scroll",
+    pattern: /\bScroll (?:chain|network|L2)\b/,
+    explorer: "https://scrollscan.com",
+  },
+  {
+    name: "zksync",
+    pattern: /\bzkSync\b/i,
+    explorer: "https://era.zksync.network",
+  },
+  { name: "cronos", pattern: /\bCronos\b/, explorer: "https://cronoscan.com" },
+  {
+    name: "moonbeam",
+    pattern: /\bMoonbeam\b/,
+    explorer: "https://moonscan.io",
+  },
+  { name: "celo", pattern: /\bCelo\b/, explorer: "https://celoscan.io" },
+  { name: "harmony", pattern: /\bHarmony\b/ },
+  { name: "solana", pattern: /\bSolana\b/ },
+  { name: "tron", pattern: /\bTRON\b|\bTron\b/ },
+  { name: "bitcoin", pattern: /\bBitcoin\b/ },
+  { name: "sui", pattern: /\bSui\b/ },
+  { name: "aptos", pattern: /\bAptos\b/ },
+  { name: "near", pattern: /\bNEAR Protocol\b/ },
+  { name: "cosmos", pattern: /\bCosmos\b/ },
+];
+
+// Links to an address or transaction on an Etherscan-style explorer
+const EXPLORER_LINK =
+  /https?:\/\/(?:www\.)?([a-z0-9.-]+)\/(address|tx|token)\/(0x[0-9a-fA-F]{40}(?:[0-9a-fA-F]{24})?)(?![0-9a-fA-F])/g;
+
+const ADDRESS = /\b0x[0-9a-fA-F]{40}(?![0-9a-fA-F])/g;
+const TX_HASH = /\b0x[0-9a-fA-F]{64}(?![0-9a-fA-F])/g;
+
+// "$12.5M", "$3 million", "$1,234,567"
+const USD_AMOUNT =
+  /\$\s?(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)\s?(k|m|mn|b|bn|thousand|million|billion)?\b/gi;
+
+const LOSS_WORDS =
+  /\b(?:lost|loss|losses|stolen|stole|steal|drain(?:ed)?|exploit(?:ed)?|hack(?:ed)?|theft|siphon(?:ed)?|rekt)\b/i;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const MONTH =
+  "(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?";
+// "January 5, 2024", "5th January 2024" and "2024-01-05"
+const DATE_PATTERNS = [
+  new RegExp(`\\b${MONTH} (\\d{1,2})(?:st|nd|rd|th)?,? (\\d{4})\\b`, "g"),
+  new RegExp(
+    `\\b(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH},? (\\d{4})\\b`,
+    "g",
+  ),
+  /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+];
+
+/**
+ * Pull incident facts out of a converted article: the USD loss, the chains
+ * involved, attacker and exploit addresses and transactions (with explorer
+ * links) and the date of the incident.
+ */
+export function extractIncidentMetadata(
+  markdown: string,
+  publishedAt?: Date,
+): IncidentMetadata {
+  const chains = new Set<string>();
+  for (const chain of CHAINS) {
+    if (chain.pattern.test(markdown)) chains.add(chain.name);
+  }
+
+  // Explorer links say exactly which chain an address or transaction is on
+  const explorerLinks = new Map<string, string>();
+  for (const [link, host, , value] of markdown.matchAll(EXPLORER_LINK)) {
+    const chain = CHAINS.find(
+      (c) => c.explorer && new URL(c.explorer).host === host,
+    );
+    if (!chain) continue;
+    chains.add(chain.name);
+    if (!explorerLinks.has(value!.toLowerCase()))
+      explorerLinks.set(value!.toLowerCase(), link);
+  }
+
+  // Without a link, only build one when the article is about a single EVM chain
+  const evmChains = CHAINS.filter((c) => c.explorer && chains.has(c.name));
+  const defaultExplorer =
+    evmChains.length === 1 ? evmChains[0]!.explorer : undefined;
+
+  const findReferences = (pattern: RegExp, path: string) => {
+    const references = new Map<string, OnchainReference>();
+    for (const [value] of markdown.matchAll(pattern)) {
+      const key = value.toLowerCase();
+      if (references.has(key)) continue;
+      references.set(key, {
+        value,
+        explorer:
+          explorerLinks.get(key) ??
+          (defaultExplorer ? `${defaultExplorer}/${path}/${value}` : undefined),
+      });
+    }
+    return [...references.values()];
+  };
+
+  return {
+    lossUsd: findLoss(markdown),
+    chains: [...chains],
+    addresses: findReferences(ADDRESS, "address"),
+    transactions: findReferences(TX_HASH, "tx"),
+    date: findIncidentDate(markdown, publishedAt),
+  };
+}
+
+/**
+ * Tags for the NIP-23 event. Chains become `t` tags and the loss is given
+ * both exactly and as a NIP-32 size bucket so relays can filter on it.
+ */
+export function buildIncidentTags(incident: IncidentMetadata): string[][] {
+  const tags: string[][] = [];
+
+  if (incident.lossUsd !== undefined) {
+    tags.push(["loss", String(incident.lossUsd), "USD"]);
+    tags.push(["L", "rekt.loss"]);
+    tags.push(["l", getLossBucket(incident.lossUsd), "rekt.loss"]);
+  }
+  if (incident.date) tags.push(["incident_date", incident.date]);
+
+  for (const { value, explorer } of incident.addresses) {
+    tags.push(explorer ? ["address", value, explorer] : ["address", value]);
+  }
+  for (const { value, explorer } of incident.transactions) {
+    tags.push(explorer ? ["tx", value, explorer] : ["tx", value]);
+  }
+
+  return tags;
+}
+
+function getLossBucket(lossUsd: number): string {
+  if (lossUsd >= 100_000_000) return "100m+";
+  if (lossUsd >= 10_000_000) return "10m-100m";
+  if (lossUsd >= 1_000_000) return "1m-10m";
+  return "<1m";
+}
+
+/** The first dollar amount in a sentence about the loss */
+function findLoss(markdown: string): number | undefined {
+  for (const sentence of markdown.split(/(?<=[.!?])\s+|\n+/)) {
+    if (!LOSS_WORDS.test(sentence)) continue;
+
+    for (const [, amount, unit] of sentence.matchAll(USD_AMOUNT)) {
+      const value = parseAmount(amount!, unit);
+      if (value > 0) return value;
+    }
+  }
+  return undefined;
+}
+
+function parseAmount(amount: string, unit?: string): number {
+  const value = Number(amount.replace(/,/g, ""));
+  const multiplier =
+    {
+      k: 1e3,
+      thousand: 1e3,
+      m: 1e6,
+      mn: 1e6,
+      million: 1e6,
+      b: 1e9,
+      bn: 1e9,
+      billion: 1e9,
+    }[unit?.toLowerCase() ?? ""] ?? 1;
+  return Math.round(value * multiplier);
+}
+
+/** The first date mentioned that isn't after the article was published */
+function findIncidentDate(
+  markdown: string,
+  publishedAt?: Date,
+): string | undefined {
+  const dates: { index: number; date: Date }[] = [];
+
+  const [monthFirst, dayFirst, iso] = DATE_PATTERNS;
+  for (const match of markdown.matchAll(monthFirst!)) {
+    dates.push({
+      index: match.index,
+      date: toDate(match[3]!, getMonth(match[1]!), match[2]!),
+    });
+  }
+  for (const match of markdown.matchAll(dayFirst!)) {
+    dates.push({
+      index: match.index,
+      date: toDate(match[3]!, getMonth(match[2]!), match[1]!),
+    });
+  }
+  for (const match of markdown.matchAll(iso!)) {
+    dates.push({
+      index: match.index,
+      date: toDate(match[1]!, Number(match[2]) - 1, match[3]!),
+    });
+  }
+
+  const first = dates
+    .filter(({ date }) => !isNaN(date.getTime()))
+    .filter(({ date }) => !publishedAt || date <= publishedAt)
+    .sort((a, b) => a.index - b.index)[0];
+  return first?.date.toISOString().slice(0, 10);
+}
+
+function getMonth(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function toDate(year: string, month: number, day: string): Date {
+  const date = new Date(Date.UTC(Number(year), month, Number(day)));
+  // Reject dates like February 31 that roll over into the next month
+  return date.getUTCMonth() === month ? date : new Date(NaN);
+}
@@ -0,0 +1,46 @@
+import {
+  ATTACK_LABEL_NAMESPACE,
+  buildAttackLabelTags,
+} from "./attack-classifier";
+import type { NIP23Publisher } from "./nip23-publisher";
+
+/** The kind 30023 article a label event points at */
+export interface LabelTarget {
+  pubkey: string;
+  articleId: string; // `d` tag of the article
+  relayHint?: string;
+}
+
+/**
+ * Publishes NIP-32 kind 1985 label events with the attack categories of a
+ * mirrored article, so articles can be labelled without republishing them
+ */
+export class LabelPublisher {
+  constructor(private publisher: NIP23Publisher) {}
+
+  async label(target: LabelTarget, categories: string[], relays?: string[]) {
+    const coordinate = `30023:${target.pubkey}:${target.articleId}`;
+    const tags: string[][] = [
+      ...buildAttackLabelTags(categories),
+      ["a", coordinate, target.relayHint ?? ""],
+      ["client", "rekt-nostr-mirror"],
+    ];
+
+    const event = await this.publisher.getSigner().signEvent({
+      kind: 1985,
+      created_at: Math.floor(Date.now() / 1000),
+      content: "",
+      tags,
+    });
+
+    console.log(
+      `🏷️  Labelling ${target.articleId} (${ATTACK_LABEL_NAMESPACE}: ${categories.join(", ")}) with event ${event.id}`,
+    );
+    const results = await this.publisher.publishEvent(
+      event,
+      this.publisher.getRelays(relays),
+    );
+
+    return { event, relays: results };
+  }
+}
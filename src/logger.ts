@@ -0,0 +1,58 @@
+import { format } from "node:util";
+
+export type LogFormat = "text" | "json";
+type LogLevel = "info" | "warn" | "error";
+type LogFields = Record<string, unknown>;
+
+// Keep the real console methods, JSON mode replaces them
+const output = {
+  log: console.log.bind(console),
+  error: console.error.bind(console),
+};
+
+let currentFormat: LogFormat = "text";
+
+/**
+ * Switch the log output format. In JSON mode every console line is written
+ * as a single-line JSON record so the output can be parsed by other tools.
+ */
+export function setLogFormat(logFormat: LogFormat): void {
+  currentFormat = logFormat;
+  if (logFormat !== "json") return;
+
+  console.log = (...args: unknown[]) => write("info", format(...args));
+  console.info = console.log;
+  console.warn = (...args: unknown[]) => write("warn", format(...args));
+  console.error = (...args: unknown[]) => write("error", format(...args));
+}
+
+/**
+ * Log a message with structured fields. The fields are only written in
+ * JSON mode, text mode prints the message as before.
+ */
+export const logger = {
+  info: (message: string, fields?: LogFields) => log("info", message, fields),
+  warn: (message: string, fields?: LogFields) => log("warn", message, fields),
+  error: (message: string, fields?: LogFields) => log("error", message, fields),
+};
+
+function log(level: LogLevel, message: string, fields?: LogFields): void {
+  if (currentFormat === "json") {
+    write(level, message, fields);
+  } else if (level === "info") {
+    output.log(message);
+  } else {
+    output.error(message);
+  }
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields): void {
+  // Drop the emoji prefixes and blank spacer lines used by the text output
+  const msg = message.trim().replace(/^[^\p{L}\p{N}"'([]+/u, "");
+  if (!msg && !fields) return;
+
+  const record = { time: new Date().toISOString(), level, msg, ...fields };
+  const line = JSON.stringify(record);
+  if (level === "info") output.log(line);
+  else output.error(line);
+}
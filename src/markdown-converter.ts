@@ -1,11 +1,87 @@
 import TurndownService from "turndown";
+import { gfm } from "turndown-plugin-gfm";
 import * as cheerio from "cheerio";
 
 export interface ConversionResult {
   markdown: string;
   extractedImage?: string;
+  references: ArticleReference[]; // Mirrored articles the links were rewritten to
+  sanitization: SanitizationReport;
 }
 
+/** What the sanitizer removed from or escaped in an article */
+export interface SanitizationReport {
+  blockedUrls: string[]; // Links and images with a scheme outside the allowlist
+  trackingParams: string[]; // Tracking parameters stripped from URLs
+  escapedHtml: string[]; // Raw HTML tags that made it through turndown
+}
+
+/** A mirrored article that a link can point at instead of the website */
+export interface ArticleReference {
+  url: string; // The original article URL
+  naddr: string; // NIP-19 address of the kind 30023 event
+  coordinate: string; // `30023:<pubkey>:<d>` for the `a` tag
+  relay?: string; // A relay known to have the event
+}
+
+/** Look up the mirrored version of a linked article, if there is one */
+export type ArticleLinkResolver = (url: string) => ArticleReference | undefined;
+
+export interface ConversionOptions {
+  resolveArticleLink?: ArticleLinkResolver;
+}
+
+// URL schemes the sanitizer lets through, anything else is removed
+const ALLOWED_LINK_SCHEMES = ["http", "https", "mailto", "nostr"];
+const ALLOWED_IMAGE_SCHEMES = ["http", "https"];
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set([
+  "ref",
+  "ref_src",
+  "ref_url",
+  "referrer",
+  "fbclid",
+  "gclid",
+  "dclid",
+  "gbraid",
+  "wbraid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "mkt_tok",
+  "_hsenc",
+  "_hsmi",
+]);
+
+// Tags and comments, but not autolinks like <https://...>
+const INLINE_HTML =
+  /<\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s[^<>]*)?\/?>|<!--[\s\S]*?-->/g;
+
+// Inline links and images whose text has no nested brackets, and autolinks.
+// Destinations can contain parentheses escaped by turndown
+const MARKDOWN_LINK =
+  /(?<!\\)(!?)\[((?:\\.|[^\\[\]])*)\]\(\s*<?((?:\\.|[^\s()<>\\])*)>?(?:\s+"(?:\\.|[^"\\])*")?\s*\)|(?<!\\)<([a-z][a-z0-9+.-]*:[^\s<>]*)>/gi;
+
+// Any remaining link destination, such as one of a link around an image
+const MARKDOWN_DESTINATION = /(?<!\\)\]\(\s*<?((?:\\.|[^\s()<>\\])*)/g;
+
+interface Footnote {
+  label: string;
+  html: string;
+}
+
+// Where footnote definitions live in common blog and static site markup,
+// outside of a footnote section they are recognised by ids like "fn1" or "fn:1"
+const FOOTNOTE_CONTAINERS = ".footnotes, [role='doc-endnotes']";
+const FOOTNOTE_ID = /^fn[:_-]?\d+$/;
+const FOOTNOTE_LABEL = /^[\w-]+$/;
+
+// Attributes the converter marks up elements with for its turndown rules
+const MARKER_ATTRIBUTES = ["data-footnote", "data-embed"];
+
 export class MarkdownConverter {
   private turndownService: TurndownService;
 
@@ -23,6 +99,9 @@ export class MarkdownConverter {
       preformattedCode: false,
     });
 
+    // Tables, strikethrough and task lists
+    this.turndownService.use(gfm);
+
     // Custom rules for better formatting
     this.addCustomRules();
   }
@@ -56,12 +135,9 @@ export class MarkdownConverter {
     this.turndownService.addRule("images", {
       filter: "img",
       replacement: (content, node) => {
-        // @ts-expect-error
-        const alt = node.getAttribute("alt") || "";
-        // @ts-expect-error
+        const alt = escapeLinkText(node.getAttribute("alt") || "");
         const src = node.getAttribute("src") || "";
-        // @ts-expect-error
-        const title = node.getAttribute("title");
+        const title = escapeLinkText(node.getAttribute("title") || "");
 
         if (!src) return "";
 
@@ -70,6 +146,45 @@ export class MarkdownConverter {
       },
     });
 
+    // Keep image captions as an italic line under the image
+    this.turndownService.addRule("figcaptions", {
+      filter: "figcaption",
+      replacement: (content) => {
+        const caption = content.trim().replace(/\s*\n+\s*/g, " ");
+        if (!caption) return "";
+        // Use the other delimiter when the caption has emphasis of its own
+        const delimiter = caption.includes("*") ? "_" : "*";
+        return `\n${delimiter}${caption}${delimiter}\n\n`;
+      },
+    });
+
+    // Table cells must stay on one line, and pipes would end the cell
+    this.turndownService.addRule("tableCells", {
+      filter: ["th", "td"],
+      replacement: (content, node) => {
+        const cell = content
+          .trim()
+          .replace(/\s*\n+\s*/g, " ")
+          .replace(/\|/g, "\\|");
+        return node.previousElementSibling ? ` ${cell} |` : `| ${cell} |`;
+      },
+    });
+
+    // Footnote references marked up by extractFootnotes()
+    this.turndownService.addRule("footnoteReferences", {
+      filter: (node) =>
+        FOOTNOTE_LABEL.test(node.getAttribute("data-footnote") ?? ""),
+      replacement: (content, node) =>
+        `[^${node.getAttribute("data-footnote")}]`,
+    });
+
+    // Bare URLs of embeds, which Nostr clients preview inline
+    this.turndownService.addRule("embedUrls", {
+      filter: (node) => isEmbedUrl(node.getAttribute("data-embed") ?? ""),
+      replacement: (content, node) =>
+        `\n\n${node.getAttribute("data-embed")}\n\n`,
+    });
+
     // Better blockquote handling
     this.turndownService.addRule("blockquotes", {
       filter: "blockquote",
@@ -97,17 +212,37 @@ export class MarkdownConverter {
         );
       },
       replacement: (content, node) => {
+        // Tweets and videos were already turned into bare URLs by prepareEmbeds()
+        if (node.querySelector("[data-embed]")) return content;
+
         const link = node.querySelector("a")?.getAttribute("href");
         if (link) {
-          return `\n\n[Embedded content: ${link}](${link})\n\n`;
+          return `\n\n${link}\n\n`;
         }
         return "\n\n*[Embedded social media content]*\n\n";
       },
     });
   }
 
-  convertToMarkdown(html: string, baseUrl?: string): string {
-    if (!html) return "";
+  convertToMarkdown(
+    html: string,
+    baseUrl?: string,
+    options: ConversionOptions = {},
+  ): string {
+    return this.convert(html, baseUrl, options).markdown;
+  }
+
+  private convert(
+    html: string,
+    baseUrl: string | undefined,
+    options: ConversionOptions,
+  ): Omit<ConversionResult, "extractedImage"> {
+    const sanitization: SanitizationReport = {
+      blockedUrls: [],
+      trackingParams: [],
+      escapedHtml: [],
+    };
+    if (!html) return { markdown: "", references: [], sanitization };
 
     // Pre-process HTML with Cheerio for better cleaning
     const $ = cheerio.load(html);
@@ -117,6 +252,15 @@ export class MarkdownConverter {
       "script, style, nav, header, footer, aside, .advertisement, .ads, .social-share",
     ).remove();
 
+    // Only the converter may mark up footnotes and embeds
+    for (const attribute of MARKER_ATTRIBUTES) {
+      $(`[${attribute}]`).removeAttr(attribute);
+    }
+
+    // Reshape markup that the turndown rules can't convert on their own
+    this.prepareEmbeds($);
+    this.prepareTables($);
+
     // Convert relative URLs to absolute
     if (baseUrl) {
       $("img[src]").each((_, img) => {
@@ -134,16 +278,340 @@ export class MarkdownConverter {
       });
     }
 
+    // Point links to already mirrored articles at their Nostr events
+    const references = new Map<string, ArticleReference>();
+    if (options.resolveArticleLink) {
+      $("a[href]").each((_, link) => {
+        const href = $(link).attr("href")!;
+        if (!/^https?:\/\//.test(href)) return;
+
+        const reference = options.resolveArticleLink!(href);
+        if (!reference) return;
+        $(link).attr("href", `nostr:${reference.naddr}`);
+        references.set(reference.coordinate, reference);
+      });
+    }
+
+    // The page is untrusted and we sign what comes out of it
+    this.sanitizeUrls($, sanitization);
+
+    // Only now, so that footnotes get the same link handling as the text
+    const footnotes = this.extractFootnotes($);
+
     // Clean up the HTML
     const cleanedHtml = $.html();
 
     // Convert to markdown
     let markdown = this.turndownService.turndown(cleanedHtml);
 
+    // Footnote definitions go at the end, continuation lines indented
+    for (const { label, html } of footnotes) {
+      const text = this.turndownService
+        .turndown(html)
+        .trim()
+        .replace(/\n(?=.)/g, "\n    ");
+      markdown += `\n\n[^${label}]: ${text}`;
+    }
+
+    markdown = this.escapeInlineHtml(markdown, sanitization);
+    markdown = this.sanitizeMarkdownLinks(markdown, sanitization);
+
     // Post-process markdown
     markdown = this.postProcessMarkdown(markdown);
 
-    return markdown;
+    return {
+      markdown,
+      references: [...references.values()],
+      sanitization,
+    };
+  }
+
+  /**
+   * Remove links and images whose scheme isn't allowlisted (`javascript:`,
+   * `data:`, ...) and strip tracking parameters from the rest
+   */
+  private sanitizeUrls($: cheerio.CheerioAPI, report: SanitizationReport) {
+    const targets = [
+      { selector: "a[href]", attr: "href", schemes: ALLOWED_LINK_SCHEMES },
+      { selector: "img[src]", attr: "src", schemes: ALLOWED_IMAGE_SCHEMES },
+    ];
+
+    for (const { selector, attr, schemes } of targets) {
+      $(selector).each((_, element) => {
+        const url = $(element).attr(attr)!;
+
+        const scheme = getScheme(url);
+        if (scheme && !schemes.includes(scheme)) {
+          report.blockedUrls.push(truncate(url, 100));
+          // Keep the text of a link, drop the image
+          if (attr === "href") $(element).replaceWith($(element).contents());
+          else $(element).remove();
+          return;
+        }
+
+        $(element).attr(attr, this.cleanUrl(url, report));
+      });
+    }
+  }
+
+  /** Strip tracking parameters and encode what could end a markdown link */
+  private cleanUrl(url: string, report: SanitizationReport): string {
+    let cleaned = url;
+    if (/^https?:\/\//i.test(url)) {
+      try {
+        const parsed = new URL(url);
+        const tracking = [...parsed.searchParams.keys()].filter(
+          (param) =>
+            param.toLowerCase().startsWith("utm_") ||
+            TRACKING_PARAMS.has(param.toLowerCase()),
+        );
+        if (tracking.length > 0) {
+          for (const param of new Set(tracking))
+            parsed.searchParams.delete(param);
+          report.trackingParams.push(...tracking);
+          cleaned = parsed.href;
+        }
+      } catch {
+        // Not a valid URL, leave it as it is
+      }
+    }
+
+    return cleaned.replace(
+      /[\s()<>]/g,
+      (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, "0")}`,
+    );
+  }
+
+  /** Escape raw HTML in the markdown, leaving code blocks and spans alone */
+  private escapeInlineHtml(
+    markdown: string,
+    report: SanitizationReport,
+  ): string {
+    return outsideCode(markdown, (part) =>
+      part.replace(INLINE_HTML, (tag) => {
+        report.escapedHtml.push(truncate(tag, 100));
+        return `\\${tag}`;
+      }),
+    );
+  }
+
+  /**
+   * Check the links and images of the finished markdown against the scheme
+   * allowlist too, in case markup got past sanitizeUrls() some other way
+   */
+  private sanitizeMarkdownLinks(
+    markdown: string,
+    report: SanitizationReport,
+  ): string {
+    return outsideCode(markdown, (part) =>
+      part
+        .replace(
+          MARKDOWN_LINK,
+          (
+            link,
+            bang: string,
+            text: string,
+            url?: string,
+            autolink?: string,
+          ) => {
+            if (autolink !== undefined) {
+              if (isAllowedDestination(autolink, ALLOWED_LINK_SCHEMES)) {
+                return link;
+              }
+              report.blockedUrls.push(truncate(autolink, 100));
+              return `\\${link}`;
+            }
+
+            const schemes = bang ? ALLOWED_IMAGE_SCHEMES : ALLOWED_LINK_SCHEMES;
+            if (isAllowedDestination(url!, schemes)) return link;
+
+            report.blockedUrls.push(truncate(url!, 100));
+            // Keep the text of a link, drop the image
+            return bang ? "" : text;
+          },
+        )
+        .replace(MARKDOWN_DESTINATION, (destination, url: string) => {
+          if (isAllowedDestination(url, ALLOWED_LINK_SCHEMES)) {
+            return destination;
+          }
+          report.blockedUrls.push(truncate(url, 100));
+          return "](";
+        }),
+    );
+  }
+
+  /**
+   * Replace footnote references with markers for the footnoteReferences rule
+   * and remove the footnote list, returning its items to be converted into
+   * markdown footnote definitions
+   */
+  private extractFootnotes($: cheerio.CheerioAPI): Footnote[] {
+    const definitions = $("li[id]")
+      .toArray()
+      .filter(
+        (item) =>
+          $(item).closest(FOOTNOTE_CONTAINERS).length > 0 ||
+          FOOTNOTE_ID.test($(item).attr("id")!),
+      );
+    if (definitions.length === 0) return [];
+
+    const labels = new Map<string, string>();
+    definitions.forEach((definition, index) => {
+      labels.set($(definition).attr("id")!, String(index + 1));
+    });
+
+    // References are in-page links to a definition, often wrapped in <sup>
+    const referenceIds = new Set<string>();
+    $("a[href^='#']").each((_, link) => {
+      const label = labels.get($(link).attr("href")!.slice(1));
+      if (
+        !label ||
+        definitions.some((definition) => cheerio.contains(definition, link))
+      )
+        return;
+
+      const id = $(link).attr("id") ?? $(link).parent("sup").attr("id");
+      if (id) referenceIds.add(id);
+
+      const sup = $(link).parent("sup");
+      const target =
+        sup.length > 0 && sup.text().trim() === $(link).text().trim()
+          ? sup
+          : $(link);
+      target.replaceWith(`<span data-footnote="${label}">${label}</span>`);
+    });
+
+    const footnotes = definitions.map((definition) => {
+      const $definition = $(definition);
+      // Drop the links back to the reference
+      $definition
+        .find(
+          "a.footnote-backref, a.reversefootnote, a[role='doc-backlink'], a[href^='#fnref']",
+        )
+        .remove();
+      $definition.find("a[href^='#']").each((_, link) => {
+        if (referenceIds.has($(link).attr("href")!.slice(1))) $(link).remove();
+      });
+
+      return {
+        label: labels.get($definition.attr("id")!)!,
+        html: $definition.html() ?? "",
+      };
+    });
+
+    // Remove the whole footnote section, or at least its list
+    for (const definition of definitions) {
+      const container = $(definition).closest(FOOTNOTE_CONTAINERS);
+      (container.length > 0 ? container : $(definition).parent("ol, ul"))
+        .first()
+        .remove();
+      $(definition).remove();
+    }
+
+    return footnotes;
+  }
+
+  /**
+   * Turn tweet and YouTube embeds into bare URLs, keeping the text of the
+   * tweet as a blockquote above its URL
+   */
+  private prepareEmbeds($: cheerio.CheerioAPI) {
+    const embed = (url: string) =>
+      isEmbedUrl(url) ? $("<p>").attr("data-embed", url).text(url) : undefined;
+
+    $("blockquote.twitter-tweet, blockquote.twitter-video").each((_, tweet) => {
+      const status = $(tweet)
+        .find("a[href*='/status/']")
+        .toArray()
+        .map((link) => $(link).attr("href")!)
+        .filter((href) => /^https?:\/\//i.test(href))
+        .pop();
+      if (!status) return;
+
+      const url = embed(status.split(/[?#]/)[0]!);
+      if (!url) return;
+
+      const text = $(tweet).children("p");
+      if (text.length > 0) $(tweet).before($("<blockquote>").append(text));
+      $(tweet).replaceWith(url);
+    });
+
+    $("iframe[src]").each((_, iframe) => {
+      const videoId = getYouTubeVideoId($(iframe).attr("src")!);
+      if (!videoId) return;
+
+      const url = embed(`https://www.youtube.com/watch?v=${videoId}`);
+      if (url) $(iframe).replaceWith(url);
+    });
+  }
+
+  /**
+   * Reshape tables into what GFM can express: one header row and the same
+   * number of cells in every row. Merged cells are split, with the content
+   * in the first cell and the rest left empty.
+   */
+  private prepareTables($: cheerio.CheerioAPI) {
+    $("table").each((_, table) => {
+      // Tables holding other tables are for layout, keep just their content
+      if ($(table).find("table").length > 0) {
+        $(table).replaceWith(
+          $(table)
+            .find("td, th")
+            .filter((_, cell) => $(cell).closest("table")[0] === table)
+            .toArray()
+            .map((cell) => $("<div>").append($(cell).contents())[0]!),
+        );
+        return;
+      }
+
+      const rows = $(table)
+        .find("tr")
+        .toArray()
+        .filter((row) => $(row).closest("table")[0] === table);
+      if (rows.length === 0) return;
+
+      const grid: { html: string; align?: string }[][] = [];
+      rows.forEach((row, rowIndex) => {
+        grid[rowIndex] ??= [];
+        let column = 0;
+        for (const cell of $(row).children("th, td").toArray()) {
+          // Skip the slots filled by rowspans from the rows above
+          while (grid[rowIndex]![column]) column++;
+
+          const colspan = getSpan($(cell).attr("colspan"));
+          const rowspan = getSpan($(cell).attr("rowspan"));
+          const align = `${$(cell).attr("align")} ${$(cell).attr("style")}`
+            .match(/\b(left|right|center)\b/i)?.[1]
+            ?.toLowerCase();
+
+          for (let r = 0; r < Math.min(rowspan, rows.length - rowIndex); r++) {
+            grid[rowIndex + r] ??= [];
+            for (let c = 0; c < colspan; c++) {
+              grid[rowIndex + r]![column + c] =
+                r === 0 && c === 0
+                  ? { html: $(cell).html() ?? "", align }
+                  : { html: "" };
+            }
+          }
+          column += colspan;
+        }
+      });
+
+      const width = Math.max(...grid.map((row) => row.length));
+      const toCells = (row: { html: string; align?: string }[], tag: string) =>
+        Array.from({ length: width }, (_, column) => {
+          const cell = row[column];
+          const align = cell?.align ? ` align="${cell.align}"` : "";
+          return `<${tag}${align}>${cell?.html ?? ""}</${tag}>`;
+        }).join("");
+
+      const [header, ...body] = grid;
+      $(table).replaceWith(
+        `<table><thead><tr>${toCells(header!, "th")}</tr></thead><tbody>${body
+          .map((row) => `<tr>${toCells(row, "td")}</tr>`)
+          .join("")}</tbody></table>`,
+      );
+    });
   }
 
   private postProcessMarkdown(markdown: string): string {
@@ -167,7 +635,11 @@ export class MarkdownConverter {
   }
 
   // Convert specific rekt.news content patterns
-  convertRektArticle(html: string, baseUrl: string): ConversionResult {
+  convertRektArticle(
+    html: string,
+    baseUrl: string,
+    options: ConversionOptions = {},
+  ): ConversionResult {
     const $ = cheerio.load(html);
 
     // Remove rekt.news specific unwanted elements
@@ -194,21 +666,29 @@ export class MarkdownConverter {
       );
     });
 
-    const markdown = this.convertToMarkdown($.html(), baseUrl);
+    const converted = this.convert($.html(), baseUrl, options);
 
     // Extract image from the beginning of the markdown if it exists
-    const result = this.extractLeadingImage(markdown);
+    const result = this.extractLeadingImage(converted.markdown, baseUrl);
 
-    return result;
+    return { ...converted, ...result };
   }
 
-  private extractLeadingImage(markdown: string): ConversionResult {
-    // Regex to match an image at the very beginning of the markdown (with optional whitespace)
-    const imageRegex = /^\s*!\[([^\]]*)\]\(([^)]+)\)(?:\s*\n)?/;
+  private extractLeadingImage(
+    markdown: string,
+    baseUrl: string,
+  ): Pick<ConversionResult, "markdown" | "extractedImage"> {
+    // Regex to match an image at the very beginning of the markdown (with optional whitespace),
+    // together with its caption since the image moves to the `image` tag.
+    // The destination ends at whitespace before an optional title
+    const imageRegex =
+      /^\s*!\[(?:\\.|[^\\\]])*\]\(\s*<?((?:\\.|[^\s()<>\\])+)>?(?:\s+"(?:\\.|[^"\\])*")?\s*\)(?:\n([*_])[^\n]+\2(?=\n|$))?(?:\s*\n)?/;
     const match = markdown.match(imageRegex);
 
-    if (match) {
-      const extractedImage = match[2]; // The URL from the markdown image
+    // The URL from the markdown image, unless it's not fit for the `image` tag
+    const extractedImage =
+      match && sanitizeImageUrl(match[1]!.replace(/\\(.)/g, "$1"), baseUrl);
+    if (extractedImage) {
       const cleanedMarkdown = markdown.replace(imageRegex, "").trim();
 
       return {
@@ -223,3 +703,99 @@ export class MarkdownConverter {
     };
   }
 }
+
+// Merged cells are limited so a broken page can't blow up the table
+function getSpan(value: string | undefined): number {
+  return Math.min(Math.max(Number(value) || 1, 1), 50);
+}
+
+// Browsers ignore whitespace and control characters in the scheme
+function getScheme(url: string): string | undefined {
+  return url
+    .replace(/[\u0000-\u0020]/g, "")
+    .match(/^([a-z][a-z0-9+.-]*):/i)?.[1]
+    ?.toLowerCase();
+}
+
+/**
+ * Whether a markdown link destination is relative or has an allowed scheme.
+ * Markdown decodes escapes and entities in destinations, so a scheme hidden
+ * behind them (`javascript&colon;`) doesn't count as relative.
+ */
+function isAllowedDestination(url: string, schemes: string[]): boolean {
+  const head = url.split(/[/?#]/)[0]!;
+  const colon = head.indexOf(":");
+  if (/[&\\]/.test(colon === -1 ? head : head.slice(0, colon))) return false;
+  if (colon === -1) return true;
+
+  const scheme = getScheme(head);
+  return scheme !== undefined && schemes.includes(scheme);
+}
+
+/**
+ * Resolve an image URL from page metadata, dropping it unless its scheme is
+ * allowed for images in articles
+ */
+export function sanitizeImageUrl(
+  url: string,
+  baseUrl: string,
+): string | undefined {
+  try {
+    const resolved = new URL(url.trim(), baseUrl);
+    const scheme = resolved.protocol.slice(0, -1);
+    return ALLOWED_IMAGE_SCHEMES.includes(scheme) ? resolved.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Alt text and titles are page text placed inside markdown syntax
+function escapeLinkText(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[\\[\]"()]/g, "\\$&");
+}
+
+/** Apply a replacement to the markdown outside of code blocks and spans */
+function outsideCode(
+  markdown: string,
+  replace: (part: string) => string,
+): string {
+  return markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, index) => (index % 2 === 1 ? part : replace(part)))
+    .join("");
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text;
+}
+
+/**
+ * Whether a URL can stand on its own line as an embed: http(s) and without
+ * anything markdown would read as syntax
+ */
+function isEmbedUrl(url: string): boolean {
+  return (
+    /^https?:\/\/[^\s<>()[\]\\"'`*]+$/i.test(url) &&
+    isAllowedDestination(url, ALLOWED_LINK_SCHEMES)
+  );
+}
+
+/** The video ID of a YouTube embed or watch URL */
+function getYouTubeVideoId(src: string): string | undefined {
+  try {
+    const url = new URL(src, "https://www.youtube.com");
+    const host = url.hostname.replace(/^www\./, "");
+    if (host === "youtu.be") return url.pathname.slice(1) || undefined;
+    if (host !== "youtube.com" && host !== "youtube-nocookie.com") return;
+
+    const videoId =
+      url.pathname.match(/^\/embed\/([\w-]+)/)?.[1] ??
+      url.searchParams.get("v");
+    return videoId && /^[\w-]+$/.test(videoId) ? videoId : undefined;
+  } catch {
+    return undefined;
+  }
+}
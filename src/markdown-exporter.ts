@@ -0,0 +1,186 @@
+import { naddrEncode } from "applesauce-core/helpers";
+import { createHash } from "node:crypto";
+import { mkdir, writeFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { HttpClient } from "./http-client";
+
+/** A NIP-23 article to export, as an unsigned template or a published event */
+export interface ExportableArticle {
+  content: string;
+  tags: string[][];
+  pubkey?: string; // Needed for the naddr
+  relays?: string[]; // Relay hints for the naddr
+}
+
+export interface MarkdownExporterOptions {
+  outDir: string;
+  downloadImages?: boolean; // Store images next to the article (page bundles)
+  http?: HttpClient; // Images are downloaded with it, like the pages
+}
+
+export interface ExportedArticle {
+  path: string;
+  images: number; // Images downloaded for the article
+}
+
+// Same pattern the Blossom mirror uses to find images in the markdown:
+// everything before the destination, the destination, the rest
+const IMAGE_PATTERN =
+  /(!\[(?:\\.|[^\\\]])*\]\()((?:\\.|[^\s()\\])+)((?:\s+"(?:\\.|[^"\\])*")?\))/g;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/gif": ".gif",
+  "image/webp": ".webp",
+  "image/svg+xml": ".svg",
+  "image/avif": ".avif",
+};
+
+/**
+ * Writes mirrored articles as markdown files with YAML frontmatter, laid out
+ * so the directory works as Hugo or Jekyll content:
+ *
+ * - `2024-01-05-euler-rekt.md` for each article, or
+ * - `2024-01-05-euler-rekt/index.md` plus its images (a Hugo page bundle)
+ *   when images are downloaded
+ */
+export class MarkdownExporter {
+  private http: HttpClient;
+
+  constructor(private options: MarkdownExporterOptions) {
+    this.http = options.http ?? new HttpClient();
+  }
+
+  async export(article: ExportableArticle): Promise<ExportedArticle> {
+    const tag = (name: string) => article.tags.find((t) => t[0] === name)?.[1];
+
+    const articleId = tag("d");
+    if (!articleId) throw new Error("Article has no d tag");
+
+    const publishedAt = Number(tag("published_at")) || undefined;
+    const date = publishedAt ? new Date(publishedAt * 1000) : undefined;
+    const name = [date?.toISOString().slice(0, 10), toFileName(articleId)]
+      .filter(Boolean)
+      .join("-");
+
+    let markdown = article.content;
+    let image = tag("image");
+    let path = join(this.options.outDir, `${name}.md`);
+    let images = 0;
+
+    if (this.options.downloadImages) {
+      const bundleDir = join(this.options.outDir, name);
+      await mkdir(bundleDir, { recursive: true });
+
+      const downloaded = await this.downloadImages(bundleDir, markdown, image);
+      // Only whole destinations, a URL can be the start of another one
+      markdown = markdown.replace(
+        IMAGE_PATTERN,
+        (match, start: string, url: string, end: string) => {
+          const file = downloaded.get(url);
+          return file ? `${start}${file}${end}` : match;
+        },
+      );
+      if (image) image = downloaded.get(image) ?? image;
+
+      path = join(bundleDir, "index.md");
+      images = downloaded.size;
+    } else {
+      await mkdir(this.options.outDir, { recursive: true });
+    }
+
+    const frontmatter = buildFrontmatter({
+      title: tag("title") ?? articleId,
+      date: date?.toISOString(),
+      slug: toFileName(articleId),
+      d: articleId,
+      published_at: publishedAt,
+      summary: tag("summary"),
+      image,
+      tags: article.tags.filter((t) => t[0] === "t").map((t) => t[1]!),
+      source: tag("r"),
+      naddr: article.pubkey
+        ? naddrEncode({
+            kind: 30023,
+            pubkey: article.pubkey,
+            identifier: articleId,
+            relays: article.relays?.slice(0, 2),
+          })
+        : undefined,
+    });
+
+    await writeFile(path, `${frontmatter}\n${markdown.trim()}\n`);
+    return { path, images };
+  }
+
+  /** Download the images, returning the file name for each URL that worked */
+  private async downloadImages(
+    dir: string,
+    markdown: string,
+    image?: string,
+  ): Promise<Map<string, string>> {
+    const urls = new Set<string>();
+    for (const match of markdown.matchAll(IMAGE_PATTERN)) {
+      if (match[2] && /^https?:\/\//.test(match[2])) urls.add(match[2]);
+    }
+    if (image && /^https?:\/\//.test(image)) urls.add(image);
+
+    const files = new Map<string, string>();
+    for (const url of urls) {
+      try {
+        const response = await this.http.fetch(url);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = new Uint8Array(await response.arrayBuffer());
+        const mimeType = response.headers
+          .get("content-type")
+          ?.split(";")[0]
+          ?.trim();
+
+        // Name images by content so re-exports don't pile up copies
+        const hash = createHash("sha256").update(data).digest("hex");
+        const extension =
+          IMAGE_EXTENSIONS[mimeType ?? ""] ??
+          extname(new URL(url).pathname).toLowerCase();
+        const file = `${hash.slice(0, 16)}${extension}`;
+
+        await writeFile(join(dir, file), data);
+        files.set(url, file);
+      } catch (error) {
+        if (error instanceof Error)
+          console.warn(`⚠️  Failed to download image ${url}: ${error.message}`);
+      }
+    }
+
+    return files;
+  }
+}
+
+/** YAML frontmatter, with strings quoted as JSON (which is valid YAML) */
+function buildFrontmatter(
+  fields: Record<string, string | number | string[] | undefined>,
+): string {
+  const lines = ["---"];
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+
+    if (Array.isArray(value)) {
+      if (value.length === 0) continue;
+      lines.push(
+        `${key}:`,
+        ...value.map((item) => `  - ${JSON.stringify(item)}`),
+      );
+    } else {
+      lines.push(`${key}: ${JSON.stringify(value)}`);
+    }
+  }
+  lines.push("---");
+  return lines.join("\n");
+}
+
+function toFileName(articleId: string): string {
+  return articleId.replace(/[^\w.-]+/g, "_");
+}
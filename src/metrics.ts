@@ -0,0 +1,244 @@
+import type { ArticleAction, RelayPublishResult } from "./nip23-publisher";
+import type { SanitizationReport } from "./markdown-converter";
+
+/** What happened to a single article during a run */
+export interface ArticleReport {
+  url: string;
+  title: string;
+  articleId: string; // `d` tag of the kind 30023 event
+  action: ArticleAction | "skipped";
+  published: boolean;
+  eventId?: string;
+  relays?: RelayPublishResult[]; // Each relay's response to the event
+  error?: string;
+  confidence?: number; // How sure the content extractor was about the body
+  needsReview?: boolean; // Published, but the extraction should be checked
+  sanitization?: SanitizationReport; // What was removed from the page, if anything
+}
+
+/** What happened during one mirror run of a source */
+export interface RunSummary {
+  source: string;
+  startedAt: string;
+  finishedAt?: string;
+  ok: boolean;
+  error?: string;
+  dryRun: boolean;
+  seen: number; // Articles found on the source
+  published: number; // Articles published (new + updated)
+  new: number;
+  updated: number;
+  skipped: number; // Unchanged articles and articles without usable content
+  failed: number; // Articles no relay accepted
+  articles: ArticleReport[];
+}
+
+interface RelayStats {
+  accepted: number;
+  rejected: number;
+  reasons: Record<string, number>; // Rejections by NIP-01 reason
+}
+
+interface SourceStats {
+  runs: number;
+  runFailures: number;
+  scrapeErrors: number;
+  conversionFailures: number;
+  articles: Record<"seen" | "new" | "updated" | "skipped" | "failed", number>;
+}
+
+/** Counters for the status and metrics endpoints, kept for the process lifetime */
+export class MirrorMetrics {
+  readonly startedAt = new Date();
+  private lastRuns = new Map<string, RunSummary>();
+  private sources = new Map<string, SourceStats>();
+  private relays = new Map<string, RelayStats>();
+
+  recordRun(summary: RunSummary): void {
+    this.lastRuns.set(summary.source, summary);
+
+    const stats = this.getSourceStats(summary.source);
+    stats.runs++;
+    if (!summary.ok) stats.runFailures++;
+    stats.articles.seen += summary.seen;
+    stats.articles.new += summary.new;
+    stats.articles.updated += summary.updated;
+    stats.articles.skipped += summary.skipped;
+    stats.articles.failed += summary.failed;
+  }
+
+  recordScrapeError(source: string): void {
+    this.getSourceStats(source).scrapeErrors++;
+  }
+
+  recordConversionFailure(source: string): void {
+    this.getSourceStats(source).conversionFailures++;
+  }
+
+  recordRelayResults(results: RelayPublishResult[]): void {
+    for (const result of results) {
+      let stats = this.relays.get(result.relay);
+      if (!stats) {
+        stats = { accepted: 0, rejected: 0, reasons: {} };
+        this.relays.set(result.relay, stats);
+      }
+
+      if (result.ok) {
+        stats.accepted++;
+      } else {
+        stats.rejected++;
+        const reason = result.reason ?? "unknown";
+        stats.reasons[reason] = (stats.reasons[reason] ?? 0) + 1;
+      }
+    }
+  }
+
+  /** JSON for the /status endpoint */
+  getStatus() {
+    return {
+      startedAt: this.startedAt.toISOString(),
+      uptimeSeconds: Math.floor((Date.now() - this.startedAt.getTime()) / 1000),
+      sources: Object.fromEntries(
+        [...this.sources].map(([source, stats]) => [
+          source,
+          { ...stats, lastRun: this.lastRuns.get(source) ?? null },
+        ]),
+      ),
+      relays: Object.fromEntries(
+        [...this.relays].map(([relay, stats]) => [
+          relay,
+          {
+            ...stats,
+            acceptanceRate:
+              stats.accepted / Math.max(stats.accepted + stats.rejected, 1),
+          },
+        ]),
+      ),
+    };
+  }
+
+  /** Prometheus text exposition format for the /metrics endpoint */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    const metric = (
+      name: string,
+      type: "counter" | "gauge",
+      help: string,
+      samples: [Record<string, string>, number][],
+    ) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+      for (const [labels, value] of samples) {
+        lines.push(`${name}${formatLabels(labels)} ${value}`);
+      }
+    };
+
+    const sources = [...this.sources];
+    const relays = [...this.relays];
+
+    metric(
+      "rekt_mirror_start_time_seconds",
+      "gauge",
+      "Unix time the mirror process started",
+      [[{}, Math.floor(this.startedAt.getTime() / 1000)]],
+    );
+    metric(
+      "rekt_mirror_runs_total",
+      "counter",
+      "Mirror runs by result",
+      sources.flatMap(([source, stats]) => [
+        [{ source, result: "success" }, stats.runs - stats.runFailures],
+        [{ source, result: "failure" }, stats.runFailures],
+      ]),
+    );
+    metric(
+      "rekt_mirror_scrape_errors_total",
+      "counter",
+      "Failed attempts to fetch articles from a source",
+      sources.map(([source, stats]) => [{ source }, stats.scrapeErrors]),
+    );
+    metric(
+      "rekt_mirror_conversion_failures_total",
+      "counter",
+      "Articles that could not be converted to markdown",
+      sources.map(([source, stats]) => [{ source }, stats.conversionFailures]),
+    );
+    metric(
+      "rekt_mirror_articles_total",
+      "counter",
+      "Articles by outcome",
+      sources.flatMap(([source, stats]) =>
+        Object.entries(stats.articles).map(
+          ([outcome, value]): [Record<string, string>, number] => [
+            { source, outcome },
+            value,
+          ],
+        ),
+      ),
+    );
+    metric(
+      "rekt_mirror_last_run_timestamp_seconds",
+      "gauge",
+      "Unix time the last run of a source finished",
+      [...this.lastRuns].map(([source, run]) => [
+        { source },
+        Math.floor(new Date(run.finishedAt ?? run.startedAt).getTime() / 1000),
+      ]),
+    );
+    metric(
+      "rekt_mirror_last_run_success",
+      "gauge",
+      "Whether the last run of a source succeeded (1) or failed (0)",
+      [...this.lastRuns].map(([source, run]) => [{ source }, run.ok ? 1 : 0]),
+    );
+    metric(
+      "rekt_mirror_relay_publishes_total",
+      "counter",
+      "Events sent to each relay by result",
+      relays.flatMap(([relay, stats]) => [
+        [{ relay, result: "accepted" }, stats.accepted],
+        [{ relay, result: "rejected" }, stats.rejected],
+      ]),
+    );
+    metric(
+      "rekt_mirror_relay_rejections_total",
+      "counter",
+      "Events rejected by each relay by reason",
+      relays.flatMap(([relay, stats]) =>
+        Object.entries(stats.reasons).map(
+          ([reason, value]): [Record<string, string>, number] => [
+            { relay, reason },
+            value,
+          ],
+        ),
+      ),
+    );
+
+    return lines.join("\n") + "\n";
+  }
+
+  private getSourceStats(source: string): SourceStats {
+    let stats = this.sources.get(source);
+    if (!stats) {
+      stats = {
+        runs: 0,
+        runFailures: 0,
+        scrapeErrors: 0,
+        conversionFailures: 0,
+        articles: { seen: 0, new: 0, updated: 0, skipped: 0, failed: 0 },
+      };
+      this.sources.set(source, stats);
+    }
+    return stats;
+  }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Shared by every mirror in the process
+export const metrics = new MirrorMetrics();
@@ -1,10 +1,137 @@
+import type { EventTemplate, NostrEvent } from "applesauce-core/helpers";
 import type { ISigner } from "applesauce-signers";
-import { createSigner, pool } from "../nostr";
+import { createHash } from "node:crypto";
+import { createSigner, pool, type SignerOptions } from "../nostr";
+import { getMirroredImages, type MirroredImage } from "./blossom-mirror";
+import { buildIncidentTags, type IncidentMetadata } from "./incident-extractor";
+import { logger } from "./logger";
+import { metrics } from "./metrics";
+import { sleep } from "./shutdown";
 import type { RektArticle } from "./scraper";
 
 export interface PublishOptions {
   relays?: string[];
   signerString: string; // nsec key or bunker URI
+  maxRetries?: number; // Retries for relays that fail with transient errors (default 3)
+  retryDelay?: number; // Base delay before the first retry in ms, doubled each retry (default 2000)
+  signal?: AbortSignal; // Stop before the next article once aborted
+}
+
+export interface NIP23PublisherOptions {
+  subjects?: string[]; // Replace the default subject tags
+  hashtags?: string[]; // Hashtags added to every article
+}
+
+// Subject tags used when no overrides are configured
+const DEFAULT_SUBJECTS = ["DeFi Security", "Blockchain"];
+
+/** Machine-readable prefixes from NIP-01 OK messages, plus local failures */
+export type RelayRejectionReason =
+  | "duplicate"
+  | "pow"
+  | "blocked"
+  | "rate-limited"
+  | "invalid"
+  | "restricted"
+  | "mute"
+  | "auth-required"
+  | "error"
+  | "timeout"
+  | "connection"
+  | "unknown";
+
+/** The outcome of publishing an event to a single relay */
+export interface RelayPublishResult {
+  relay: string;
+  ok: boolean;
+  reason?: RelayRejectionReason;
+  message?: string; // Message from the relay's OK response (or the local error)
+  notices: string[]; // NOTICE messages the relay sent while publishing
+  attempts: number;
+}
+
+/** Thrown when an article could not be published, with each relay's response */
+export class PublishError extends Error {
+  constructor(
+    message: string,
+    readonly eventId: string,
+    readonly relays: RelayPublishResult[],
+  ) {
+    super(message);
+    this.name = "PublishError";
+  }
+}
+
+// Failures worth retrying, everything else is a permanent rejection
+const TRANSIENT_REASONS: RelayRejectionReason[] = [
+  "rate-limited",
+  "error",
+  "timeout",
+  "connection",
+];
+
+const KNOWN_REASONS: RelayRejectionReason[] = [
+  "duplicate",
+  "pow",
+  "blocked",
+  "rate-limited",
+  "invalid",
+  "restricted",
+  "mute",
+  "auth-required",
+  "error",
+];
+
+/** Get the machine-readable prefix of a NIP-01 OK message */
+export function parseRelayReason(
+  message?: string,
+): RelayRejectionReason | undefined {
+  const prefix = message?.match(/^([a-z-]+):/)?.[1];
+  if (!prefix) return undefined;
+  return KNOWN_REASONS.find((reason) => reason === prefix) ?? "unknown";
+}
+
+/** What a run does with an article compared to what is on the relays */
+export type ArticleAction = "new" | "updated" | "unchanged";
+
+/** The already published version of an article (from the relays or the state store) */
+export interface PublishedVersion {
+  hash: string;
+  publishedAt?: string; // Original `published_at` tag value
+  images?: MirroredImage[]; // Blossom copies of its images, from the imeta tags
+}
+
+export interface ArticleToPublish {
+  article: RektArticle;
+  markdown: string;
+  // The version of this article that was already published, if any
+  previous?: PublishedVersion;
+  // Additional tags produced by processing steps (e.g. imeta for mirrored images)
+  extraTags?: string[][];
+  // Loss, chains and onchain references found in the article text
+  incident?: IncidentMetadata;
+}
+
+export interface PublishedArticle {
+  action: Exclude<ArticleAction, "unchanged">;
+  article: RektArticle;
+  event: NostrEvent;
+  hash: string;
+  relays: RelayPublishResult[];
+}
+
+/** Hash the markdown content and tag set of an article event */
+export function hashArticleContent(content: string, tags: string[][]): string {
+  // Sort tags so the hash doesn't depend on tag order, and ignore
+  // published_at since updates always keep the original value
+  const sortedTags = tags
+    .filter((tag) => tag[0] !== "published_at")
+    .map((tag) => JSON.stringify(tag))
+    .sort();
+
+  return createHash("sha256")
+    .update(JSON.stringify([content, sortedTags]))
+    .digest("hex");
 }
 
 export class NIP23Publisher {
@@ -17,9 +144,14 @@ export class NIP23Publisher {
     "wss://relay.snort.social",
   ];
 
-  async initialize(signerString: string): Promise<void> {
+  constructor(private options: NIP23PublisherOptions = {}) {}
+
+  async initialize(
+    signerString: string,
+    signerOptions?: SignerOptions,
+  ): Promise<void> {
     try {
-      this.signer = await createSigner(signerString);
+      this.signer = await createSigner(signerString, signerOptions);
       console.log("✅ Signer initialized successfully");
     } catch (error) {
       if (error instanceof Error)
@@ -27,45 +159,95 @@ export class NIP23Publisher {
     }
   }
 
-  async publishArticle(
-    article: RektArticle,
-    markdownContent: string,
-    options: PublishOptions,
-  ): Promise<string> {
+  isInitialized(): boolean {
+    return this.signer !== null;
+  }
+
+  /** Close the signer's connection to a remote signer, if it has one */
+  async close(): Promise<void> {
+    if (this.signer && "close" in this.signer) {
+      await (this.signer as { close(): Promise<void> }).close();
+    }
+  }
+
+  /** Get the initialized signer for other steps that need to sign events */
+  getSigner(): ISigner {
     if (!this.signer) {
       throw new Error("Publisher not initialized. Call initialize() first.");
     }
+    return this.signer;
+  }
 
-    // Use specified relays or default ones
-    const relays = options.relays || this.defaultRelays;
+  /** Use the specified relays or the default ones */
+  getRelays(relays?: string[]): string[] {
+    return relays || this.defaultRelays;
+  }
+
+  /** Get the signer's public key, or undefined if not initialized */
+  async getPublicKey(): Promise<string | undefined> {
+    return this.signer?.getPublicKey();
+  }
+
+  /** Get the hash and original publish date of an article event */
+  getPublishedVersion(event: NostrEvent): PublishedVersion {
+    return {
+      hash: hashArticleContent(event.content, event.tags),
+      publishedAt: event.tags.find((t) => t[0] === "published_at")?.[1],
+      images: getMirroredImages(event.tags),
+    };
+  }
+
+  async publishArticle(
+    item: ArticleToPublish,
+    options: PublishOptions,
+  ): Promise<PublishedArticle> {
+    const { article, previous } = item;
+
+    const relays = this.getRelays(options.relays);
 
     // Create unique article identifier
     const articleId = this.createArticleId(article.url);
 
-    // Build NIP-23 tags
-    const tags = this.buildTags(article, articleId);
-
-    // Create the event
-    const event = {
-      kind: 30023, // NIP-23 long-form content
-      created_at: Math.floor(Date.now() / 1000),
-      content: markdownContent,
-      tags,
-    };
+    // Create the event (replacing the existing version if there is one)
+    const event = this.buildArticleEvent(item);
 
     try {
       // Sign and publish the event
-      const signedEvent = await this.signer.signEvent(event);
-      const publishResult = await pool.publish(relays, signedEvent);
+      const signedEvent = await this.signEvent(event);
+      const results = await this.publishEvent(signedEvent, relays, options);
 
-      console.log(`📝 Published article: ${article.title}`);
+      const accepted = results.filter((result) => result.ok).length;
+      if (accepted === 0) {
+        const reasons = results
+          .map((r) => `${r.relay} (${r.reason ?? "unknown"})`)
+          .join(", ");
+        throw new PublishError(
+          `No relays accepted the event: ${reasons}`,
+          signedEvent.id,
+          results,
+        );
+      }
+
+      logger.info(
+        `📝 ${previous ? "Updated" : "Published"} article: ${article.title}`,
+        {
+          event: "article_published",
+          action: previous ? "updated" : "new",
+          url: article.url,
+          articleId,
+          eventId: signedEvent.id,
+        },
+      );
       console.log(`📍 Event ID: ${signedEvent.id}`);
       console.log(`🔗 Article ID: ${articleId}`);
 
-      // Wait for confirmations
-      await this.waitForPublication(signedEvent.id, relays);
-
-      return signedEvent.id;
+      return {
+        action: previous ? "updated" : "new",
+        article,
+        event: signedEvent,
+        hash: hashArticleContent(signedEvent.content, signedEvent.tags),
+        relays: results,
+      };
     } catch (error) {
       if (error instanceof Error)
         console.error(`❌ Failed to publish article: ${error.message}`);
@@ -73,14 +255,145 @@ export class NIP23Publisher {
     }
   }
 
-  private createArticleId(url: string): string {
+  /**
+   * Query the relays for the signer's (or the given pubkey's) kind 30023
+   * events matching the given article identifiers. Returns the newest event
+   * for each `d` tag found.
+   */
+  async fetchExistingArticles(
+    articleIds: string[],
+    relays?: string[],
+    author?: string,
+  ): Promise<Map<string, NostrEvent>> {
+    const pubkey = author ?? (await this.signer?.getPublicKey());
+    if (!pubkey) {
+      throw new Error("Publisher not initialized. Call initialize() first.");
+    }
+
+    if (articleIds.length === 0) return new Map();
+
+    return this.fetchArticles({ authors: [pubkey], "#d": articleIds }, relays);
+  }
+
+  /**
+   * Query the relays for every kind 30023 event this mirror published for a
+   * pubkey, with or without a signer. Returns the newest event for each `d` tag.
+   */
+  async fetchPublishedArticles(
+    pubkey: string,
+    relays?: string[],
+  ): Promise<Map<string, NostrEvent>> {
+    const articles = await this.fetchArticles({ authors: [pubkey] }, relays);
+    for (const [articleId, event] of articles) {
+      const client = event.tags.find((t) => t[0] === "client")?.[1];
+      if (client !== "rekt-nostr-mirror") articles.delete(articleId);
+    }
+    return articles;
+  }
+
+  private fetchArticles(
+    filter: { authors: string[]; "#d"?: string[] },
+    relays?: string[],
+  ): Promise<Map<string, NostrEvent>> {
+    const existing = new Map<string, NostrEvent>();
+    const targetRelays = this.getRelays(relays);
+
+    return new Promise((resolve) => {
+      const observable = pool.request(targetRelays, {
+        kinds: [30023],
+        ...filter,
+      });
+
+      // Declared up front since the request can complete synchronously
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      let subscription: { unsubscribe(): void } | undefined;
+      let finished = false;
+
+      const done = () => {
+        finished = true;
+        clearTimeout(timeout);
+        subscription?.unsubscribe();
+        resolve(existing);
+      };
+
+      subscription = observable.subscribe({
+        next: (event) => {
+          const articleId = event.tags.find((t) => t[0] === "d")?.[1];
+          if (!articleId) return;
+
+          // Keep only the newest version of each article
+          const current = existing.get(articleId);
+          if (!current || event.created_at > current.created_at) {
+            existing.set(articleId, event);
+          }
+        },
+        complete: () => done(),
+        error: () => done(),
+      });
+
+      if (finished) subscription.unsubscribe();
+      else timeout = setTimeout(() => done(), 10000); // Wait max 10 seconds
+    });
+  }
+
+  /**
+   * Build the NIP-23 event template for an article. When a previous version
+   * is given its `published_at` is kept so updates don't move the article.
+   */
+  buildArticleEvent({
+    article,
+    markdown,
+    previous,
+    extraTags = [],
+    incident,
+  }: ArticleToPublish): EventTemplate {
+    const tags = [
+      ...this.buildTags(article, this.createArticleId(article.url), incident),
+      ...extraTags,
+    ];
+
+    if (previous?.publishedAt) {
+      const publishedAtTag = tags.find((t) => t[0] === "published_at");
+      if (publishedAtTag) publishedAtTag[1] = previous.publishedAt;
+    }
+
+    return {
+      kind: 30023, // NIP-23 long-form content
+      created_at: Math.floor(Date.now() / 1000),
+      content: markdown,
+      tags,
+    };
+  }
+
+  /** Compare a converted article with the version that was already published */
+  getArticleAction(item: ArticleToPublish): ArticleAction {
+    if (!item.previous) return "new";
+
+    const event = this.buildArticleEvent(item);
+    const hash = hashArticleContent(event.content, event.tags);
+
+    return hash === item.previous.hash ? "unchanged" : "updated";
+  }
+
+  createArticleId(url: string): string {
     // Create a unique identifier from the URL
-    // Remove protocol and domain, keep path
-    const urlPath = new URL(url).pathname;
-    return urlPath.replace(/^\//, "").replace(/\/$/, "") || "article";
+    const { hostname, pathname } = new URL(url);
+    const host = hostname.replace(/^www\./, "");
+    const path = pathname.replace(/^\//, "").replace(/\/$/, "");
+
+    // rekt.news ids are just the path, as they were before other sources
+    // existed, so its already published events keep being replaced
+    if (host === "rekt.news") return path || "article";
+
+    // Other sites include the host so feeds sharing a key can't collide
+    return path ? `${host}/${path}` : host;
   }
 
-  private buildTags(article: RektArticle, articleId: string): string[][] {
+  private buildTags(
+    article: RektArticle,
+    articleId: string,
+    incident?: IncidentMetadata,
+  ): string[][] {
     const tags: string[][] = [
       ["d", articleId], // Required for addressable events
       ["title", article.title],
@@ -102,89 +415,209 @@ export class NIP23Publisher {
       tags.push(["image", article.image]);
     }
 
-    // Add tags (hashtags)
-    article.tags.forEach((tag) => {
-      tags.push(["t", tag.toLowerCase()]);
+    // Add tags (hashtags), including the chains the incident happened on
+    const hashtags = new Set(
+      [
+        ...article.tags,
+        ...(this.options.hashtags ?? []),
+        ...(incident?.chains ?? []),
+      ].map((tag) => tag.toLowerCase()),
+    );
+    hashtags.forEach((tag) => {
+      tags.push(["t", tag]);
     });
 
     // Add subject tags for categorization
-    tags.push(["subject", "DeFi Security"]);
-    tags.push(["subject", "Blockchain"]);
+    (this.options.subjects ?? DEFAULT_SUBJECTS).forEach((subject) => {
+      tags.push(["subject", subject]);
+    });
+
+    if (incident) tags.push(...buildIncidentTags(incident));
 
     return tags;
   }
 
-  private async waitForPublication(
-    eventId: string,
+  /** Sign an event template with the publisher's signer */
+  async signEvent(template: EventTemplate): Promise<NostrEvent> {
+    if (!this.signer) {
+      throw new Error("Publisher not initialized. Call initialize() first.");
+    }
+    return this.signer.signEvent(template);
+  }
+
+  /**
+   * Publish a signed event to each relay and collect its OK response. Relays
+   * that fail with a transient error are retried with exponential backoff.
+   */
+  async publishEvent(
+    event: NostrEvent,
     relays: string[],
-  ): Promise<void> {
-    console.log("⏳ Waiting for publication confirmations...");
+    options: Pick<PublishOptions, "maxRetries" | "retryDelay"> = {},
+  ): Promise<RelayPublishResult[]> {
+    const maxRetries = options.maxRetries ?? 3;
+    const retryDelay = options.retryDelay ?? 2000;
 
-    return new Promise((resolve) => {
-      let confirmations = 0;
+    const results = new Map<string, RelayPublishResult>();
+    let pending = relays;
 
-      // Subscribe to see if the event appears on relays
-      const observable = pool.subscription(relays, {
-        ids: [eventId],
-      });
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt > 0) {
+        const delay = retryDelay * 2 ** (attempt - 1);
+        console.log(
+          `🔁 Retrying ${pending.length} relays in ${delay}ms (attempt ${attempt + 1}/${maxRetries + 1})...`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
 
-      const subscription = observable.subscribe(() => {
-        confirmations++;
-        if (confirmations >= Math.ceil(relays.length / 2)) {
-          clearTimeout(timeout);
-          subscription.unsubscribe();
-          console.log(
-            `✅ Publication confirmed on ${confirmations}/${relays.length} relays`,
-          );
-          resolve();
-        }
-      });
+      const attemptResults = await Promise.all(
+        pending.map((relay) => this.publishToRelay(event, relay)),
+      );
 
-      const timeout = setTimeout(() => {
-        subscription.unsubscribe(); // Always unsubscribe on timeout
-        console.log(
-          `✅ Publication completed with ${confirmations}/${relays.length} confirmations`,
+      for (const result of attemptResults) {
+        const previous = results.get(result.relay);
+        results.set(result.relay, {
+          ...result,
+          notices: [...(previous?.notices ?? []), ...result.notices],
+          attempts: attempt + 1,
+        });
+      }
+
+      // Only retry relays that failed with a transient error
+      pending =
+        attempt < maxRetries
+          ? attemptResults
+              .filter(
+                (r) =>
+                  !r.ok && !!r.reason && TRANSIENT_REASONS.includes(r.reason),
+              )
+              .map((r) => r.relay)
+          : [];
+    }
+
+    const ordered = relays.map((relay) => results.get(relay)!);
+    for (const result of ordered) {
+      const fields = {
+        event: "relay_result",
+        eventId: event.id,
+        relay: result.relay,
+        ok: result.ok,
+        reason: result.reason,
+        message: result.message,
+        attempts: result.attempts,
+      };
+      if (result.ok) {
+        logger.info(`  ✅ ${result.relay}`, fields);
+      } else {
+        logger.info(
+          `  ❌ ${result.relay}: ${result.message || result.reason} (${result.attempts} attempts)`,
+          fields,
         );
-        resolve();
-      }, 5000); // Wait max 5 seconds
-    });
+      }
+      for (const notice of result.notices) {
+        console.log(`  📢 ${result.relay} NOTICE: ${notice}`);
+      }
+    }
+
+    const accepted = ordered.filter((result) => result.ok).length;
+    console.log(`📡 Accepted by ${accepted}/${relays.length} relays`);
+    metrics.recordRelayResults(ordered);
+
+    return ordered;
+  }
+
+  private async publishToRelay(
+    event: NostrEvent,
+    url: string,
+  ): Promise<RelayPublishResult> {
+    const relay = pool.relay(url);
+
+    // Collect any NOTICE messages sent while publishing
+    const notices: string[] = [];
+    const noticeSubscription = relay.notice$.subscribe((notice) =>
+      notices.push(notice),
+    );
+
+    try {
+      // Retries are handled by publishEvent, so don't let the relay reconnect
+      const response = await relay.publish(event, {
+        reconnect: false,
+        timeout: 10000,
+      });
+      const reason = parseRelayReason(response.message);
+
+      return {
+        relay: url,
+        // Relays that already have the event count as accepted
+        ok: response.ok || reason === "duplicate",
+        reason: response.ok ? undefined : (reason ?? "unknown"),
+        message: response.message,
+        notices,
+        attempts: 1,
+      };
+    } catch (error) {
+      // Websocket failures reject with an ErrorEvent rather than an Error
+      const message =
+        error instanceof Error ? error.message : "Failed to connect to relay";
+      return {
+        relay: url,
+        ok: false,
+        reason: /timeout/i.test(message) ? "timeout" : "connection",
+        message,
+        notices,
+        attempts: 1,
+      };
+    } finally {
+      noticeSubscription.unsubscribe();
+    }
   }
 
   async publishMultipleArticles(
-    articles: { article: RektArticle; markdown: string }[],
+    articles: ArticleToPublish[],
     options: PublishOptions,
     delayMs: number = 5000,
-  ): Promise<string[]> {
-    const eventIds: string[] = [];
+    onPublished?: (result: PublishedArticle) => Promise<void> | void,
+    onFailed?: (item: ArticleToPublish, error: unknown) => void,
+  ): Promise<PublishedArticle[]> {
+    const published: PublishedArticle[] = [];
 
     console.log(
       `📚 Publishing ${articles.length} articles with ${delayMs}ms delay between each...`,
     );
 
     for (let i = 0; i < articles.length; i++) {
-      const { article, markdown } = articles[i]!;
+      const item = articles[i]!;
+      const { article } = item;
+
+      if (options.signal?.aborted) {
+        console.log(
+          `🛑 Stopping early, ${articles.length - i} articles left unpublished`,
+        );
+        break;
+      }
 
       try {
         console.log(
           `\n📖 Publishing ${i + 1}/${articles.length}: ${article.title}`,
         );
-        const eventId = await this.publishArticle(article, markdown, options);
-        eventIds.push(eventId);
+        const result = await this.publishArticle(item, options);
+        published.push(result);
+        await onPublished?.(result);
 
         // Delay between publications to avoid rate limiting
         if (i < articles.length - 1) {
           console.log(`⏸️  Waiting ${delayMs}ms before next publication...`);
-          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          await sleep(delayMs, options.signal);
         }
       } catch (error) {
         if (error instanceof Error)
           console.error(
             `❌ Failed to publish article "${article.title}": ${error.message}`,
           );
+        onFailed?.(item, error);
         // Continue with next article
       }
     }
 
-    return eventIds;
+    return published;
   }
 }
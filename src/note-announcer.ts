@@ -0,0 +1,84 @@
+import { naddrEncode } from "applesauce-core/helpers";
+import type { NIP23Publisher, PublishedArticle } from "./nip23-publisher";
+
+export const DEFAULT_ANNOUNCEMENT_TEMPLATE = `📰 {title}
+
+{summary}
+
+{naddr}
+
+{hashtags}`;
+
+/**
+ * Publishes a short kind 1 note for each newly mirrored article so it shows
+ * up in clients that only display notes
+ */
+export class NoteAnnouncer {
+  constructor(
+    private publisher: NIP23Publisher,
+    private template: string = DEFAULT_ANNOUNCEMENT_TEMPLATE,
+  ) {}
+
+  async announce(published: PublishedArticle, relays?: string[]) {
+    const { article, event } = published;
+    const articleId = this.publisher.createArticleId(article.url);
+
+    // Point clients at relays that are known to have the article
+    const relayHints = published.relays
+      .filter((result) => result.ok)
+      .map((result) => result.relay)
+      .slice(0, 3);
+
+    const naddr = naddrEncode({
+      kind: event.kind,
+      pubkey: event.pubkey,
+      identifier: articleId,
+      relays: relayHints,
+    });
+
+    const hashtags = [...new Set(article.tags.map((t) => t.toLowerCase()))]
+      .map((tag) => tag.replace(/\s+/g, ""))
+      .filter((tag) => tag.length > 0);
+
+    const content = this.renderTemplate({
+      title: article.title,
+      summary: article.summary ?? "",
+      naddr: `nostr:${naddr}`,
+      url: article.url,
+      hashtags: hashtags.map((tag) => `#${tag}`).join(" "),
+    });
+
+    const coordinate = `${event.kind}:${event.pubkey}:${articleId}`;
+    const tags: string[][] = [
+      ["a", coordinate, relayHints[0] ?? ""],
+      ...hashtags.map((tag) => ["t", tag]),
+      ["r", article.url],
+      ["client", "rekt-nostr-mirror"],
+    ];
+
+    const note = await this.publisher.getSigner().signEvent({
+      kind: 1,
+      created_at: Math.floor(Date.now() / 1000),
+      content,
+      tags,
+    });
+
+    console.log(`📣 Announcing article with note ${note.id}`);
+    const results = await this.publisher.publishEvent(
+      note,
+      this.publisher.getRelays(relays),
+    );
+
+    return { event: note, relays: results };
+  }
+
+  private renderTemplate(values: Record<string, string>): string {
+    return (
+      this.template
+        .replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+        // Drop the blank lines left behind by empty placeholders
+        .replace(/\n{3,}/g, "\n\n")
+        .trim()
+    );
+  }
+}
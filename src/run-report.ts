@@ -0,0 +1,48 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { RunSummary } from "./metrics";
+
+/** The JSON file written by --report */
+export interface RunReport {
+  generatedAt: string;
+  ok: boolean; // False if any run failed or any article failed to publish
+  runs: RunSummary[];
+}
+
+export async function writeRunReport(
+  path: string,
+  runs: RunSummary[],
+): Promise<void> {
+  const report: RunReport = {
+    generatedAt: new Date().toISOString(),
+    ok: runs.every((run) => run.ok && run.failed === 0),
+    runs,
+  };
+
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(report, null, 2) + "\n");
+}
+
+/** A summary for a run that failed before it could start */
+export function createFailedRun(
+  source: string,
+  error: string,
+  dryRun: boolean,
+): RunSummary {
+  const now = new Date().toISOString();
+  return {
+    source,
+    startedAt: now,
+    finishedAt: now,
+    ok: false,
+    error,
+    dryRun,
+    seen: 0,
+    published: 0,
+    new: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    articles: [],
+  };
+}
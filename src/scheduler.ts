@@ -0,0 +1,61 @@
+import { sleep } from "./shutdown";
+
+export interface ScheduleOptions {
+  name: string; // Used in logs
+  intervalMs: number;
+  jitterMs: number; // Up to this much random delay is added to every wait
+  failureThreshold: number; // Consecutive failures before backing off
+  maxBackoffMs: number;
+  signal: AbortSignal; // Stops the schedule once aborted
+}
+
+/**
+ * Run a task on an interval until the signal is aborted. After repeated
+ * failures the interval is doubled for every further failure, up to
+ * maxBackoffMs, and reset by the next successful run.
+ */
+export async function runScheduled(
+  task: () => Promise<void>,
+  options: ScheduleOptions,
+): Promise<void> {
+  let failures = 0;
+
+  while (!options.signal.aborted) {
+    try {
+      await task();
+      failures = 0;
+    } catch (error) {
+      failures++;
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `❌ ${options.name}: poll failed (${failures} in a row): ${message}`,
+      );
+    }
+
+    if (options.signal.aborted) break;
+
+    const delay = getNextDelay(failures, options);
+    const next = new Date(Date.now() + delay).toISOString();
+    console.log(
+      `😴 ${options.name}: next poll in ${Math.round(delay / 1000)}s (${next})`,
+    );
+    await sleep(delay, options.signal);
+  }
+}
+
+/** The wait before the next run, backing off once failures reach the threshold */
+export function getNextDelay(
+  failures: number,
+  options: Pick<
+    ScheduleOptions,
+    "intervalMs" | "jitterMs" | "failureThreshold" | "maxBackoffMs"
+  >,
+): number {
+  let delay = options.intervalMs;
+  if (failures >= options.failureThreshold) {
+    const exponent = failures - options.failureThreshold + 1;
+    delay = Math.min(options.intervalMs * 2 ** exponent, options.maxBackoffMs);
+  }
+
+  return delay + Math.floor(Math.random() * options.jitterMs);
+}
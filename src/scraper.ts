@@ -1,4 +1,13 @@
 import * as cheerio from "cheerio";
+import { extractMainContent } from "./content-extractor";
+import { HttpClient } from "./http-client";
+import { sanitizeImageUrl } from "./markdown-converter";
+import type {
+  ArticlePageCheck,
+  ListingCheck,
+  StructureCheck,
+} from "./site-doctor";
+import type { Source } from "./source";
 
 export interface RektArticle {
   title: string;
@@ -8,11 +17,36 @@ export interface RektArticle {
   summary?: string;
   image?: string;
   tags: string[];
+  contentConfidence?: number; // 0-1 from the content extractor, unset for full-text feeds
 }
 
-export class RektScraper {
+// Selectors for the article body, tried in order
+const CONTENT_SELECTORS = [
+  "article .content",
+  ".post-content",
+  ".entry-content",
+  "main article",
+  ".markdown-body",
+  '[class*="content"]',
+  "article",
+];
+
+// Catch-alls that match most pages, content found by these is likely junk
+const GENERIC_CONTENT_SELECTORS = ['[class*="content"]', "article"];
+
+const DATE_SELECTORS = [
+  "time[datetime]",
+  ".date",
+  ".published",
+  '[class*="date"]',
+];
+
+export class RektScraper implements Source {
+  readonly name = "rekt.news";
   private baseUrl = "https://rekt.news";
 
+  constructor(private http: HttpClient = new HttpClient()) {}
+
   private isArticleLink(href: string): boolean {
     // Exclude common non-article patterns
     const excludePatterns = [
@@ -68,69 +102,127 @@ export class RektScraper {
     return true;
   }
 
+  /** Parse the article cards from a listing page (homepage or a later page) */
+  private parseListing(html: string): RektArticle[] {
+    const $ = cheerio.load(html);
+    const articles: RektArticle[] = [];
+
+    // Find articles using the specific rekt.news structure
+    $("article.post").each((_, element) => {
+      const $article = $(element);
+
+      // Get the main article link from the post title
+      const $titleLink = $article.find(".post-title a").first();
+      const href = $titleLink.attr("href");
+      const title = $titleLink.text().trim();
+
+      if (
+        href &&
+        href.startsWith("/") &&
+        href !== "/" &&
+        this.isArticleLink(href) &&
+        title
+      ) {
+        // Extract publish date from post-meta
+        let publishedAt = new Date();
+        const dateText = $article.find(".post-meta time").text().trim();
+        if (dateText) {
+          const parsed = new Date(dateText);
+          if (!isNaN(parsed.getTime())) {
+            publishedAt = parsed;
+          }
+        }
+
+        // Extract summary from post-excerpt
+        const summary = $article.find(".post-excerpt p").first().text().trim();
+
+        // Extract tags from post-meta (but don't use them as article links)
+        const tags = ["rekt", "defi", "security"];
+        $article.find('.post-meta a[href*="tag="]').each((_, tagEl) => {
+          const tagText = $(tagEl).text().trim().toLowerCase();
+          if (tagText && !tags.includes(tagText)) {
+            tags.push(tagText);
+          }
+        });
+
+        articles.push({
+          title,
+          url: this.baseUrl + href,
+          content: "",
+          publishedAt,
+          summary: summary || undefined,
+          tags,
+        });
+      }
+    });
+
+    return articles;
+  }
+
+  /** Count what the listing selectors match on a listing page */
+  private checkListing(html: string, url: string): ListingCheck {
+    const $ = cheerio.load(html);
+    const $items = $("article.post");
+
+    return {
+      url,
+      items: $items.length,
+      links: this.parseListing(html).length,
+      withDate: $items.filter(
+        (_, element) =>
+          !isNaN(new Date($(element).find(".post-meta time").text()).getTime()),
+      ).length,
+    };
+  }
+
+  /**
+   * Check that the selectors still match the site: the homepage listing and
+   * the first few article pages it links to.
+   */
+  async checkStructure(sampleSize: number = 3): Promise<StructureCheck> {
+    const response = await this.http.fetch(this.baseUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch rekt.news: ${response.status}`);
+    }
+
+    const html = await response.text();
+    const listing = this.checkListing(html, this.baseUrl);
+    const sample = this.parseListing(html).slice(0, sampleSize);
+
+    const articles = await Promise.all(
+      sample.map(async (article): Promise<ArticlePageCheck> => {
+        try {
+          const page = await this.http.fetch(article.url);
+          if (!page.ok) throw new Error(`HTTP ${page.status}`);
+          return checkArticlePage(await page.text(), article.url);
+        } catch (error) {
+          return {
+            url: article.url,
+            contentSelector: null,
+            genericContent: false,
+            contentLength: 0,
+            confidence: 0,
+            hasTitle: false,
+            hasDate: false,
+            hasImage: false,
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }),
+    );
+
+    return { source: this.name, listing, articles };
+  }
+
   async fetchLatestArticles(limit: number = 50): Promise<RektArticle[]> {
     try {
-      const response = await fetch(this.baseUrl);
+      const response = await this.http.fetch(this.baseUrl);
       if (!response.ok) {
         throw new Error(`Failed to fetch rekt.news: ${response.status}`);
       }
 
       const html = await response.text();
-      const $ = cheerio.load(html);
-      const articles: RektArticle[] = [];
-
-      // Find articles using the specific rekt.news structure
-      $("article.post").each((_, element) => {
-        const $article = $(element);
-
-        // Get the main article link from the post title
-        const $titleLink = $article.find(".post-title a").first();
-        const href = $titleLink.attr("href");
-        const title = $titleLink.text().trim();
-
-        if (
-          href &&
-          href.startsWith("/") &&
-          href !== "/" &&
-          this.isArticleLink(href) &&
-          title
-        ) {
-          // Extract publish date from post-meta
-          let publishedAt = new Date();
-          const dateText = $article.find(".post-meta time").text().trim();
-          if (dateText) {
-            const parsed = new Date(dateText);
-            if (!isNaN(parsed.getTime())) {
-              publishedAt = parsed;
-            }
-          }
-
-          // Extract summary from post-excerpt
-          const summary = $article
-            .find(".post-excerpt p")
-            .first()
-            .text()
-            .trim();
-
-          // Extract tags from post-meta (but don't use them as article links)
-          const tags = ["rekt", "defi", "security"];
-          $article.find('.post-meta a[href*="tag="]').each((_, tagEl) => {
-            const tagText = $(tagEl).text().trim().toLowerCase();
-            if (tagText && !tags.includes(tagText)) {
-              tags.push(tagText);
-            }
-          });
-
-          articles.push({
-            title,
-            url: this.baseUrl + href,
-            content: "",
-            publishedAt,
-            summary: summary || undefined,
-            tags,
-          });
-        }
-      });
+      const articles = this.parseListing(html);
 
       // Remove duplicates and limit
       const uniqueArticles = articles
@@ -140,98 +232,208 @@ export class RektScraper {
         )
         .slice(0, limit);
 
-      // Fetch full content for each article
+      // Fetch full content for each article, leaving out the ones that fail
       const fullArticles = await Promise.all(
-        uniqueArticles.map((article) => this.fetchArticleContent(article)),
+        uniqueArticles.map((article) =>
+          this.fetchArticleContent(article).catch((error) => {
+            console.error(`Error fetching content for ${article.url}:`, error);
+            return article;
+          }),
+        ),
       );
 
       return fullArticles.filter((article) => article.content.length > 100);
     } catch (error) {
-      console.error("Error fetching articles:", error);
-      return [];
+      // Let the caller tell a failed scrape apart from an empty listing
+      if (error instanceof Error)
+        throw new Error(
+          `Failed to fetch articles from ${this.name}: ${error.message}`,
+        );
+      throw error;
     }
   }
 
-  async fetchArticleContent(article: RektArticle): Promise<RektArticle> {
+  /**
+   * Discover every article on the site by walking the paginated listing and
+   * the sitemap, sorted oldest-first. Articles only found in the sitemap
+   * have their page fetched for the publish date, since the sitemap doesn't
+   * have one, and are returned with their content. The others have none yet.
+   */
+  async discoverAllArticles(maxPages: number = 500): Promise<RektArticle[]> {
+    const articles = new Map<string, RektArticle>();
+
+    // Walk the paginated listing until a page has no new articles
+    for (let page = 1; page <= maxPages; page++) {
+      const url = page === 1 ? this.baseUrl : `${this.baseUrl}/?page=${page}`;
+      const response = await this.http.fetch(url);
+      if (!response.ok) break;
+
+      const pageArticles = this.parseListing(await response.text());
+      const newArticles = pageArticles.filter((a) => !articles.has(a.url));
+      if (newArticles.length === 0) break;
+
+      newArticles.forEach((article) => articles.set(article.url, article));
+      console.log(
+        `📄 Listing page ${page}: ${newArticles.length} articles (${articles.size} total)`,
+      );
+    }
+
+    // Pick up anything the listing doesn't reach from the sitemap
     try {
-      const response = await fetch(article.url);
-      if (!response.ok) {
-        console.warn(
-          `Failed to fetch article ${article.url}: ${response.status}`,
-        );
-        return article;
-      }
+      const sitemapArticles = await this.fetchSitemapArticles();
+      let added = 0;
+      for (const article of sitemapArticles) {
+        if (articles.has(article.url)) continue;
 
-      const html = await response.text();
-      const $ = cheerio.load(html);
-
-      // Extract main content (try multiple selectors)
-      const contentSelectors = [
-        "article .content",
-        ".post-content",
-        ".entry-content",
-        "main article",
-        ".markdown-body",
-        '[class*="content"]',
-        "article",
-      ];
-
-      let content = "";
-      for (const selector of contentSelectors) {
-        const $content = $(selector).first();
-        if ($content.length && $content.text().trim().length > 100) {
-          content = $content.html() || "";
-          break;
-        }
+        // Without the page the sitemap's lastmod has to do for the date
+        const page = await this.fetchArticleContent(article).catch((error) => {
+          if (error instanceof Error)
+            console.warn(`⚠️  ${error.message}, dating it by the sitemap`);
+          return article;
+        });
+        articles.set(article.url, page);
+        added++;
       }
+      console.log(`🗺️  Sitemap: ${added} additional articles`);
+    } catch (error) {
+      if (error instanceof Error)
+        console.warn(`⚠️  Failed to read sitemap: ${error.message}`);
+    }
 
-      // Extract metadata
-      const title =
-        $("h1").first().text().trim() ||
-        $("title").text().trim() ||
-        article.title;
-
-      const summary =
-        $('meta[name="description"]').attr("content") ||
-        $('meta[property="og:description"]').attr("content") ||
-        $("p").first().text().trim().slice(0, 200);
-
-      const image =
-        $('meta[property="og:image"]').attr("content") ||
-        $("img").first().attr("src");
-
-      // Extract publish date
-      let publishedAt = article.publishedAt;
-      const dateSelectors = [
-        "time[datetime]",
-        ".date",
-        ".published",
-        '[class*="date"]',
-      ];
-
-      for (const selector of dateSelectors) {
-        const dateEl = $(selector).first();
-        const datetime = dateEl.attr("datetime") || dateEl.text();
-        if (datetime) {
-          const parsed = new Date(datetime);
-          if (!isNaN(parsed.getTime())) {
-            publishedAt = parsed;
-            break;
-          }
-        }
-      }
+    return [...articles.values()].sort(
+      (a, b) => a.publishedAt.getTime() - b.publishedAt.getTime(),
+    );
+  }
 
-      return {
-        ...article,
-        title,
-        content: content || article.content,
-        publishedAt,
-        summary,
-        image: image ? new URL(image, article.url).href : undefined,
-      };
-    } catch (error) {
-      console.error(`Error fetching content for ${article.url}:`, error);
-      return article;
+  private async fetchSitemapArticles(): Promise<RektArticle[]> {
+    const response = await this.http.fetch(`${this.baseUrl}/sitemap.xml`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch sitemap: ${response.status}`);
+    }
+
+    const $ = cheerio.load(await response.text(), { xml: true });
+    const articles: RektArticle[] = [];
+
+    $("url").each((_, element) => {
+      const loc = $(element).find("loc").text().trim();
+      if (!loc) return;
+
+      const url = new URL(loc, this.baseUrl);
+      if (url.origin !== new URL(this.baseUrl).origin) return;
+
+      const href = url.pathname;
+      if (href === "/" || !this.isArticleLink(href)) return;
+
+      // lastmod is when the page last changed, only used when the article
+      // page has no date of its own
+      const lastmod = new Date($(element).find("lastmod").text().trim());
+
+      articles.push({
+        title: href.replace(/^\/|\/$/g, ""),
+        url: this.baseUrl + href,
+        content: "",
+        publishedAt: isNaN(lastmod.getTime()) ? new Date(0) : lastmod,
+        tags: ["rekt", "defi", "security"],
+      });
+    });
+
+    return articles;
+  }
+
+  async fetchArticleContent(article: RektArticle): Promise<RektArticle> {
+    const response = await this.http.fetch(article.url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch article ${article.url}: ${response.status}`,
+      );
+    }
+
+    const html = await response.text();
+    return extractArticlePage(html, article);
+  }
+}
+
+/** Extract the article body and metadata from a fetched article page */
+export function extractArticlePage(
+  html: string,
+  article: RektArticle,
+): RektArticle {
+  const $ = cheerio.load(html);
+
+  // Find the article body by scoring the page, falling back to the known
+  // selectors (with no confidence) when no paragraphs stand out
+  const extracted = extractMainContent(html);
+  const content = extracted?.html ?? findContent($).content;
+
+  // Extract metadata
+  const title =
+    $("h1").first().text().trim() || $("title").text().trim() || article.title;
+
+  const summary =
+    $('meta[name="description"]').attr("content") ||
+    $('meta[property="og:description"]').attr("content") ||
+    $("p").first().text().trim().slice(0, 200);
+
+  const image =
+    $('meta[property="og:image"]').attr("content") ||
+    $("img").first().attr("src");
+
+  // Extract publish date
+  const publishedAt = findPublishedAt($) ?? article.publishedAt;
+
+  return {
+    ...article,
+    title,
+    content: content || article.content,
+    publishedAt,
+    summary,
+    image: image ? sanitizeImageUrl(image, article.url) : undefined,
+    contentConfidence: content ? (extracted?.confidence ?? 0) : undefined,
+  };
+}
+
+/** Report which selectors matched on an article page */
+export function checkArticlePage(html: string, url: string): ArticlePageCheck {
+  const $ = cheerio.load(html);
+  const { selector, content } = findContent($);
+
+  return {
+    url,
+    contentSelector: selector,
+    genericContent:
+      selector !== null && GENERIC_CONTENT_SELECTORS.includes(selector),
+    contentLength: content.length,
+    confidence: extractMainContent(html)?.confidence ?? 0,
+    hasTitle: $("h1").first().text().trim().length > 0,
+    hasDate: findPublishedAt($) !== undefined,
+    hasImage: Boolean(
+      $('meta[property="og:image"]').attr("content") ||
+        $("img").first().attr("src"),
+    ),
+  };
+}
+
+function findContent($: cheerio.CheerioAPI): {
+  selector: string | null;
+  content: string;
+} {
+  for (const selector of CONTENT_SELECTORS) {
+    const $content = $(selector).first();
+    if ($content.length && $content.text().trim().length > 100) {
+      return { selector, content: $content.html() || "" };
+    }
+  }
+  return { selector: null, content: "" };
+}
+
+function findPublishedAt($: cheerio.CheerioAPI): Date | undefined {
+  for (const selector of DATE_SELECTORS) {
+    const dateEl = $(selector).first();
+    const datetime = dateEl.attr("datetime") || dateEl.text();
+    if (datetime) {
+      const parsed = new Date(datetime);
+      if (!isNaN(parsed.getTime())) return parsed;
     }
   }
+  return undefined;
 }
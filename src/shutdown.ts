@@ -0,0 +1,48 @@
+/**
+ * Turns SIGINT/SIGTERM into a shutdown request so the article being
+ * published can finish instead of being cut off halfway.
+ */
+export class ShutdownController {
+  private controller = new AbortController();
+
+  /** Aborted once a shutdown has been requested */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get requested(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /** Ask running work to stop. A second request exits immediately */
+  request(reason: string): void {
+    if (this.requested) {
+      console.log(`\n🛑 Received ${reason} again, exiting now`);
+      process.exit(1);
+    }
+
+    console.log(
+      `\n⚠️  Received ${reason}, finishing current work before shutting down (repeat to force)...`,
+    );
+    this.controller.abort(reason);
+  }
+}
+
+// Shared by every command in the process
+export const shutdown = new ShutdownController();
+
+/** Wait for the given time, returning early if the signal is aborted */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
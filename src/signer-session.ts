@@ -0,0 +1,87 @@
+import { chmod, mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface SignerSession {
+  remote: string; // Pubkey of the remote signer
+  pubkey: string; // The user's pubkey
+  relays: string[]; // Relays used to talk to the remote signer
+  clientKey: string; // Hex secret key of the local client keypair
+  createdAt: number; // Unix timestamp of the first connection
+}
+
+interface SessionFile {
+  version: number;
+  sessions: SignerSession[];
+}
+
+const SESSION_VERSION = 1;
+
+/**
+ * A JSON file with the NIP-46 client keypairs so later runs reconnect to
+ * the remote signer without asking for approval again.
+ */
+export class SessionStore {
+  private sessions: SignerSession[] = [];
+
+  constructor(private path: string) {}
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error) {
+      // No session file yet, start with an empty store
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.sessions = [];
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const state = JSON.parse(raw) as SessionFile;
+      if (state.version !== SESSION_VERSION) {
+        throw new Error(`Unsupported session version ${state.version}`);
+      }
+      this.sessions = state.sessions ?? [];
+    } catch (error) {
+      if (error instanceof Error)
+        throw new Error(
+          `Failed to read session file ${this.path}: ${error.message}`,
+        );
+      throw error;
+    }
+  }
+
+  async save(): Promise<void> {
+    const state: SessionFile = {
+      version: SESSION_VERSION,
+      sessions: this.sessions,
+    };
+
+    // The file holds client secret keys, so keep it readable by the owner only
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(state, null, 2) + "\n", {
+      mode: 0o600,
+    });
+    await chmod(tmpPath, 0o600);
+    await rename(tmpPath, this.path);
+  }
+
+  /** Find the session for a remote signer */
+  get(remote: string): SignerSession | undefined {
+    return this.sessions.find((session) => session.remote === remote);
+  }
+
+  /** Add or replace the session for a remote signer */
+  set(session: SignerSession): void {
+    this.sessions = this.sessions.filter((s) => s.remote !== session.remote);
+    this.sessions.push(session);
+  }
+
+  /** Forget the session for a remote signer */
+  delete(remote: string): void {
+    this.sessions = this.sessions.filter((s) => s.remote !== remote);
+  }
+}
@@ -0,0 +1,132 @@
+import { DEFAULT_REVIEW_CONFIDENCE } from "./content-extractor";
+
+/** What the listing selectors matched on a listing page */
+export interface ListingCheck {
+  url: string;
+  items: number; // `article.post` elements
+  links: number; // Items with a usable `.post-title a` article link
+  withDate: number; // Items with a parseable `.post-meta time`
+}
+
+/** What the content and metadata selectors matched on an article page */
+export interface ArticlePageCheck {
+  url: string;
+  contentSelector: string | null; // First selector with enough text, if any
+  genericContent: boolean; // Content only matched a catch-all selector
+  contentLength: number;
+  confidence: number; // How sure the content extractor is that it found the body
+  hasTitle: boolean;
+  hasDate: boolean;
+  hasImage: boolean;
+  error?: string; // The page could not be fetched
+}
+
+export interface StructureCheck {
+  source: string;
+  listing: ListingCheck;
+  articles: ArticlePageCheck[];
+}
+
+export interface StructureProblem {
+  level: "error" | "warning";
+  message: string;
+}
+
+// Article bodies shorter than this are probably a teaser or a wrong element
+const MIN_CONTENT_LENGTH = 500;
+
+/**
+ * Find signs that the site changed under the scraper. Errors mean the
+ * mirror would publish nothing or junk, warnings mean missing metadata.
+ */
+export function findStructureProblems(
+  check: StructureCheck,
+): StructureProblem[] {
+  const problems: StructureProblem[] = [];
+  const error = (message: string) => problems.push({ level: "error", message });
+  const warning = (message: string) =>
+    problems.push({ level: "warning", message });
+
+  const { listing } = check;
+  if (listing.items === 0) {
+    error(`No listing items matched on ${listing.url}`);
+  } else if (listing.links === 0) {
+    error(
+      `${listing.items} listing items matched but none had an article link`,
+    );
+  } else if (listing.withDate < listing.items) {
+    warning(
+      `${listing.items - listing.withDate}/${listing.items} listing items have no date`,
+    );
+  }
+
+  for (const article of check.articles) {
+    if (article.error) {
+      error(`${article.url}: failed to fetch (${article.error})`);
+      continue;
+    }
+
+    if (!article.contentSelector) {
+      error(`${article.url}: no content selector matched`);
+    } else if (article.genericContent) {
+      error(
+        `${article.url}: content only matched the catch-all selector ${article.contentSelector}`,
+      );
+    } else if (article.contentLength < MIN_CONTENT_LENGTH) {
+      warning(
+        `${article.url}: content is only ${article.contentLength} characters`,
+      );
+    }
+
+    if (article.confidence < DEFAULT_REVIEW_CONFIDENCE) {
+      warning(
+        `${article.url}: content extraction confidence is only ${article.confidence}`,
+      );
+    }
+
+    if (!article.hasTitle) error(`${article.url}: no title found`);
+    if (!article.hasDate) warning(`${article.url}: no date found`);
+    if (!article.hasImage) warning(`${article.url}: no image found`);
+  }
+
+  return problems;
+}
+
+/** Print the selector matches and problems found by a structure check */
+export function printStructureCheck(
+  check: StructureCheck,
+  problems: StructureProblem[],
+): void {
+  const { listing } = check;
+  console.log(`\n🩺 Site structure of ${check.source}`);
+  console.log(`\n📄 Listing (${listing.url}):
+- Items matched: ${listing.items}
+- Article links: ${listing.links}
+- Items with a date: ${listing.withDate}`);
+
+  check.articles.forEach((article, index) => {
+    const yesNo = (value: boolean) => (value ? "yes" : "no");
+    console.log(`\n📰 Article ${index + 1}: ${article.url}`);
+    if (article.error) {
+      console.log(`- Error: ${article.error}`);
+      return;
+    }
+    console.log(`- Content selector: ${article.contentSelector ?? "none"}
+- Content length: ${article.contentLength}
+- Extraction confidence: ${article.confidence}
+- Title: ${yesNo(article.hasTitle)}
+- Date: ${yesNo(article.hasDate)}
+- Image: ${yesNo(article.hasImage)}`);
+  });
+
+  if (problems.length === 0) {
+    console.log("\n✅ Site structure looks fine");
+    return;
+  }
+
+  console.log();
+  for (const problem of problems) {
+    const icon = problem.level === "error" ? "❌" : "⚠️ ";
+    console.log(`${icon} ${problem.message}`);
+  }
+}
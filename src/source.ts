@@ -0,0 +1,44 @@
+import { FeedSource } from "./feed-source";
+import { HttpClient } from "./http-client";
+import { RektScraper, type RektArticle } from "./scraper";
+import type { StructureCheck } from "./site-doctor";
+
+/** A site that articles can be mirrored from */
+export interface Source {
+  /** Name of the source used in logs */
+  readonly name: string;
+
+  /** Fetch the most recent articles with their full content */
+  fetchLatestArticles(limit?: number): Promise<RektArticle[]>;
+
+  /**
+   * Discover every available article, oldest-first. Content is only filled
+   * in for pages that had to be fetched anyway.
+   */
+  discoverAllArticles(): Promise<RektArticle[]>;
+
+  /** Fill in the full content of a discovered article, throwing if it can't */
+  fetchArticleContent(article: RektArticle): Promise<RektArticle>;
+
+  /** Check that the site still has the structure the scraper expects */
+  checkStructure?(sampleSize?: number): Promise<StructureCheck>;
+}
+
+/**
+ * Create a source from a CLI string. "rekt" is the rekt.news scraper, any
+ * http(s) URL is treated as an RSS or Atom feed.
+ */
+export function createSource(
+  sourceString: string,
+  http: HttpClient = new HttpClient(),
+): Source {
+  if (sourceString === "rekt") {
+    return new RektScraper(http);
+  } else if (/^https?:\/\//.test(sourceString)) {
+    return new FeedSource(sourceString, { http });
+  } else {
+    throw new Error(
+      `Invalid source provided: ${sourceString}. Must be 'rekt' or an RSS/Atom feed URL`,
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { MirroredImage } from "./blossom-mirror";
+
+export interface ArticleRecord {
+  url: string; // Source article URL
+  articleId: string; // `d` tag of the kind 30023 event
+  contentHash: string;
+  eventId: string;
+  pubkey: string;
+  publishedAt?: string; // Original `published_at` tag value
+  firstPublishedAt: number; // Unix timestamp of the first publish
+  lastPublishedAt: number; // Unix timestamp of the latest publish
+  relays: string[]; // Relays that accepted the latest event
+  labels?: string[]; // Attack categories of the last kind 1985 label event
+  images?: MirroredImage[]; // Blossom copies of the article's images
+}
+
+interface StateFile {
+  version: number;
+  articles: ArticleRecord[];
+}
+
+const STATE_VERSION = 1;
+
+/** A JSON file that remembers which articles have been mirrored between runs */
+export class StateStore {
+  private articles: ArticleRecord[] = [];
+
+  constructor(private path: string) {}
+
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf-8");
+    } catch (error) {
+      // No state file yet, start with an empty store
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.articles = [];
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      const state = JSON.parse(raw) as StateFile;
+      if (state.version !== STATE_VERSION) {
+        throw new Error(`Unsupported state version ${state.version}`);
+      }
+      this.articles = state.articles ?? [];
+    } catch (error) {
+      if (error instanceof Error)
+        throw new Error(
+          `Failed to read state file ${this.path}: ${error.message}`,
+        );
+      throw error;
+    }
+  }
+
+  async save(): Promise<void> {
+    const state: StateFile = {
+      version: STATE_VERSION,
+      articles: this.articles,
+    };
+
+    // Write to a temporary file first so an interrupted run can't corrupt the state
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(state, null, 2) + "\n");
+    await rename(tmpPath, this.path);
+  }
+
+  /** Find the record for an article, optionally only for a specific signer */
+  get(articleId: string, pubkey?: string): ArticleRecord | undefined {
+    return this.articles.find(
+      (record) =>
+        record.articleId === articleId && (!pubkey || record.pubkey === pubkey),
+    );
+  }
+
+  /**
+   * Add or update the record for an article, keeping its first publish time,
+   * labels and mirrored images
+   */
+  upsert(record: ArticleRecord): void {
+    const index = this.articles.findIndex(
+      (r) => r.articleId === record.articleId && r.pubkey === record.pubkey,
+    );
+
+    const current = this.articles[index];
+    if (current) {
+      this.articles[index] = {
+        ...record,
+        firstPublishedAt: current.firstPublishedAt,
+        labels: record.labels ?? current.labels,
+        images: record.images ?? current.images,
+      };
+    } else {
+      this.articles.push(record);
+    }
+  }
+
+  list(): ArticleRecord[] {
+    return [...this.articles].sort(
+      (a, b) => b.lastPublishedAt - a.lastPublishedAt,
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import type { MirrorMetrics } from "./metrics";
+import { shutdown } from "./shutdown";
+
+/**
+ * Start a small HTTP server for monitoring an unattended mirror:
+ * `/healthz` for liveness checks, `/status` with the last runs as JSON and
+ * `/metrics` in Prometheus text format.
+ */
+export function startStatusServer(
+  metrics: MirrorMetrics,
+  port: number,
+  hostname = "127.0.0.1",
+) {
+  const server = Bun.serve({
+    port,
+    hostname,
+    fetch(request) {
+      const { pathname } = new URL(request.url);
+
+      switch (pathname) {
+        case "/healthz":
+          // Report unhealthy while shutting down so traffic moves elsewhere
+          return shutdown.requested
+            ? new Response("shutting down\n", { status: 503 })
+            : new Response("ok\n");
+        case "/status":
+          return Response.json(metrics.getStatus());
+        case "/metrics":
+          return new Response(metrics.toPrometheus(), {
+            headers: { "Content-Type": "text/plain; version=0.0.4" },
+          });
+        default:
+          return new Response("Not found\n", { status: 404 });
+      }
+    },
+  });
+
+  console.log(
+    `📈 Status server listening on http://${server.hostname}:${server.port}`,
+  );
+  return server;
+}
@@ -0,0 +1,67 @@
+import { expect, test } from "bun:test";
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { HttpClient } from "../src/http-client";
+import { MarkdownConverter } from "../src/markdown-converter";
+import { NIP23Publisher } from "../src/nip23-publisher";
+import { RektScraper } from "../src/scraper";
+
+// A saved rekt.news listing with three articles (see "Offline Snapshots"),
+// the expected markdown was written by --replay with --markdown-dir
+const fixtures = join(import.meta.dir, "..", "fixtures");
+
+const scraper = new RektScraper(
+  new HttpClient({ replayDir: join(fixtures, "pages") }),
+);
+const converter = new MarkdownConverter();
+const publisher = new NIP23Publisher();
+
+const articles = await scraper.fetchLatestArticles(5);
+
+test("scrapes every article on the listing", () => {
+  expect(articles.map((article) => article.url)).toEqual([
+    "https://rekt.news/euler-rekt/",
+    "https://rekt.news/curve-vyper-rekt/",
+    "https://rekt.news/hostile-markup-rekt/",
+  ]);
+});
+
+for (const article of articles) {
+  const articleId = publisher.createArticleId(article.url);
+
+  test(`converts ${articleId} to the expected markdown`, async () => {
+    const { markdown } = converter.convertRektArticle(
+      article.content,
+      article.url,
+    );
+    const expected = await readFile(
+      join(fixtures, "expected", `${articleId}.md`),
+      "utf-8",
+    );
+    expect(markdown).toBe(expected);
+  });
+}
+
+test("keeps hostile markup from becoming links", () => {
+  const article = articles.find((a) => a.url.includes("hostile-markup"))!;
+  const { markdown, sanitization } = converter.convertRektArticle(
+    article.content,
+    article.url,
+  );
+
+  // Code is shown as-is, everything else must not link to a script
+  const text = markdown.replace(/```[\s\S]*?```/g, "");
+  expect(text).not.toMatch(/(?<!\\)\]\(\s*javascript:/i);
+  expect(text).not.toMatch(/(?<!\\)<javascript:/i);
+  expect(sanitization.blockedUrls).toEqual([
+    "javascript:alert(5)",
+    "javascript:alert(6)",
+    "javascript:alert(12)",
+    "data:image/png;base64,AAAA",
+    "javascript:alert(8)",
+  ]);
+  // The footnote goes through the same link handling as the text
+  expect(sanitization.trackingParams).toEqual(["utm_source", "fbclid"]);
+  expect(markdown).toContain("[Euler](https://rekt.news/euler-rekt/)");
+  expect(article.image).toBeUndefined();
+});
@@ -0,0 +1,12 @@
+// turndown-plugin-gfm ships without type declarations
+declare module "turndown-plugin-gfm" {
+  import type TurndownService from "turndown";
+
+  type Plugin = TurndownService.Plugin;
+
+  export const gfm: Plugin;
+  export const highlightedCodeBlock: Plugin;
+  export const strikethrough: Plugin;
+  export const tables: Plugin;
+  export const taskListItems: Plugin;
+}